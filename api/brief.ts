@@ -0,0 +1,86 @@
+import { jsonResponse, errorResponse, handleOptions } from './lib/api-helpers';
+import {
+  getSentimentProvider,
+  createLexiconProvider,
+  type DealBriefResult,
+  type SentimentProvider
+} from './lib/sentimentProviders';
+import { validateBriefInput, MAX_NOTE_LENGTH } from './lib/validation';
+import type { DealBrief, DealBriefInput } from './lib/types';
+
+export const config = { runtime: 'edge' };
+
+// Enough history for a brief without blowing the prompt up
+const MAX_NOTES = 100;
+
+interface DealBriefResponse {
+  brief: DealBrief;
+  // Same meaning as in /api/sentiment: 'fallback' means the template answered
+  source: 'model' | 'fallback';
+  model: string;
+  model_version: string;
+}
+
+export default async function handler(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return handleOptions();
+  }
+
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  let body: DealBriefInput;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const invalid = validateBriefInput(body);
+  if (invalid) {
+    return errorResponse(invalid, 400);
+  }
+  if (body.notes.length > MAX_NOTES) {
+    return errorResponse(`At most ${MAX_NOTES} notes per request`, 400);
+  }
+  if (body.notes.some(note => note.content.length > MAX_NOTE_LENGTH)) {
+    return errorResponse(`Notes must be at most ${MAX_NOTE_LENGTH} characters`, 413);
+  }
+
+  try {
+    return jsonResponse(await summarizeDeal(body));
+  } catch (error: any) {
+    console.error('Brief API error:', error);
+    return errorResponse('Brief generation failed', 500);
+  }
+}
+
+// Falls back to the template brief when the configured provider fails
+async function summarizeDeal(input: DealBriefInput): Promise<DealBriefResponse> {
+  const provider = getSentimentProvider();
+
+  if (provider) {
+    try {
+      return withProvenance(await provider.summarizeDeal(input), provider, 'model');
+    } catch (error) {
+      console.error(`Brief provider ${provider.name} failed:`, error);
+    }
+  }
+
+  const fallback = createLexiconProvider();
+  return withProvenance(await fallback.summarizeDeal(input), fallback, 'fallback');
+}
+
+function withProvenance(
+  result: DealBriefResult,
+  provider: SentimentProvider,
+  source: DealBriefResponse['source']
+): DealBriefResponse {
+  return {
+    brief: result.brief,
+    source,
+    model: provider.modelId,
+    model_version: result.model_version || provider.modelId
+  };
+}
@@ -0,0 +1,66 @@
+import { corsHeaders, errorResponse, handleOptions } from './lib/api-helpers';
+import { getChangeFeed } from './lib/changeFeed';
+import { decodeCursor, encodeCursor } from './lib/cursor';
+
+export const config = { runtime: 'edge' };
+
+const POLL_INTERVAL = 2000;
+// Edge functions can't stream forever; close before the platform limit and
+// let the client reconnect with a fresh cursor
+const STREAM_DURATION = 55000;
+const RECONNECT_DELAY = 3000;
+
+// GET /api/changes?cursor=<cursor>
+// Server-Sent Events stream that emits a `change` event whenever the server
+// revision moves past the cursor. Events carry no rows, only the new cursor.
+export default async function handler(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return handleOptions();
+  }
+
+  if (req.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const url = new URL(req.url);
+  const feed = getChangeFeed();
+  const encoder = new TextEncoder();
+  let lastRevision = decodeCursor(url.searchParams.get('cursor'));
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (text: string) => controller.enqueue(encoder.encode(text));
+      const deadline = Date.now() + STREAM_DURATION;
+
+      send(`retry: ${RECONNECT_DELAY}\n\n`);
+
+      while (!req.signal.aborted && Date.now() < deadline) {
+        try {
+          const latest = await feed.latestRevision();
+          if (latest > lastRevision) {
+            lastRevision = latest;
+            send(`event: change\ndata: ${JSON.stringify({ cursor: encodeCursor(latest) })}\n\n`);
+          } else {
+            // Comment line keeps proxies from closing an idle connection
+            send(': keep-alive\n\n');
+          }
+        } catch (error) {
+          console.error('Change feed error:', error);
+        }
+
+        await feed.waitForChange(POLL_INTERVAL, req.signal);
+      }
+
+      controller.close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      ...corsHeaders
+    }
+  });
+}
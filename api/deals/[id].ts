@@ -48,7 +48,7 @@ export default async function handler(req: Request) {
       return jsonResponse(data);
     }
 
-    // DELETE - Delete deal
+    // DELETE - Delete deal (the tombstone trigger records it and its cascaded notes for /api/sync)
     if (req.method === 'DELETE') {
       const { error } = await supabase
         .from('deals')
@@ -0,0 +1,90 @@
+import { jsonResponse, errorResponse, handleOptions } from './lib/api-helpers';
+import {
+  getSentimentProvider,
+  createLexiconProvider,
+  type ExtractionResult,
+  type SentimentProvider
+} from './lib/sentimentProviders';
+import { MAX_NOTE_LENGTH } from './lib/validation';
+import type { NoteEntities } from './lib/types';
+
+export const config = { runtime: 'edge' };
+
+interface ExtractRequest {
+  text?: string;
+  // The rep's local date (YYYY-MM-DD), so "Friday" means their Friday
+  reference_date?: string;
+}
+
+interface ExtractResponse {
+  entities: NoteEntities;
+  // Same meaning as in /api/sentiment: 'fallback' means the pattern rules answered
+  source: 'model' | 'fallback';
+  model: string;
+  model_version: string;
+}
+
+export default async function handler(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return handleOptions();
+  }
+
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  let body: ExtractRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (!body.text || typeof body.text !== 'string' || body.text.trim().length === 0) {
+    return errorResponse('Text is required', 400);
+  }
+  if (body.text.length > MAX_NOTE_LENGTH) {
+    return errorResponse(`Text must be at most ${MAX_NOTE_LENGTH} characters`, 413);
+  }
+
+  const referenceDate = body.reference_date ?? new Date().toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(referenceDate) || isNaN(new Date(referenceDate).getTime())) {
+    return errorResponse('reference_date must be YYYY-MM-DD', 400);
+  }
+
+  try {
+    return jsonResponse(await extractEntities(body.text, referenceDate));
+  } catch (error: any) {
+    console.error('Extract API error:', error);
+    return errorResponse('Extraction failed', 500);
+  }
+}
+
+// Falls back to the pattern rules when the configured provider fails
+async function extractEntities(text: string, referenceDate: string): Promise<ExtractResponse> {
+  const provider = getSentimentProvider();
+
+  if (provider) {
+    try {
+      return withProvenance(await provider.extract(text, referenceDate), provider, 'model');
+    } catch (error) {
+      console.error(`Extraction provider ${provider.name} failed:`, error);
+    }
+  }
+
+  const fallback = createLexiconProvider();
+  return withProvenance(await fallback.extract(text, referenceDate), fallback, 'fallback');
+}
+
+function withProvenance(
+  result: ExtractionResult,
+  provider: SentimentProvider,
+  source: ExtractResponse['source']
+): ExtractResponse {
+  return {
+    entities: result.entities,
+    source,
+    model: provider.modelId,
+    model_version: result.model_version || provider.modelId
+  };
+}
@@ -0,0 +1,115 @@
+import { analyzeLexicon } from '../../shared/lexicon';
+import { extractEntitiesByRules } from './entityRules';
+import type { DealBrief, DealBriefInput, DealStage, SentimentAspect } from './types';
+
+// Template brief, used when no model is available. Every line comes straight
+// from the deal's fields, stored scores and the keyword rules.
+
+const STAGE_LABELS: Record<DealStage, string> = {
+  prospect: 'Prospect',
+  qualified: 'Qualified',
+  proposal: 'Proposal',
+  negotiation: 'Negotiation',
+  closing: 'Closing'
+};
+
+const STAGE_NEXT_STEPS: Record<DealStage, string> = {
+  prospect: 'Confirm the budget and who makes the decision',
+  qualified: 'Send a proposal',
+  proposal: 'Follow up on the proposal',
+  negotiation: 'Agree the remaining terms',
+  closing: 'Get the contract signed'
+};
+
+const ASPECT_LABELS: Record<SentimentAspect, string> = {
+  price: 'Price',
+  timing: 'Timing',
+  competitor: 'Competitor',
+  fit: 'Fit'
+};
+
+const MAX_OBJECTIONS = 3;
+const QUOTE_LENGTH = 80;
+
+function quote(text: string): string {
+  const line = text.trim().replace(/\s+/g, ' ');
+  return line.length > QUOTE_LENGTH ? `${line.slice(0, QUOTE_LENGTH - 1)}…` : line;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function describeStanding({ deal, notes }: DealBriefInput): string {
+  const parts = [`${deal.name}: ${STAGE_LABELS[deal.stage] ?? deal.stage} stage, $${deal.value.toLocaleString('en-US')}`];
+  if (deal.status !== 'open') parts.push(`marked ${deal.status}`);
+  if (deal.expected_close_date) parts.push(`expected to close ${formatDate(deal.expected_close_date)}`);
+
+  const last = notes[notes.length - 1];
+  const activity = last
+    ? `${notes.length} note${notes.length !== 1 ? 's' : ''}, the latest on ${formatDate(last.created_at)}`
+    : 'no notes yet';
+
+  return `${parts.join(', ')}. ${activity[0].toUpperCase()}${activity.slice(1)}.`;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function mood(score: number): string {
+  if (score > 0.3) return 'positive';
+  if (score < -0.3) return 'negative';
+  return 'neutral';
+}
+
+// Compares the earliest third of the scored notes with the latest third
+function describeTrend({ notes }: DealBriefInput): string {
+  const scores = notes.map(n => n.sentiment_score).filter((s): s is number => s !== null && s !== undefined);
+  if (scores.length < 2) return 'Not enough scored notes to see a trend.';
+
+  const third = Math.max(1, Math.floor(scores.length / 3));
+  const early = average(scores.slice(0, third));
+  const late = average(scores.slice(-third));
+  const change = late - early;
+
+  const direction = change > 0.2 ? 'Improving' : change < -0.2 ? 'Declining' : 'Steady';
+  return `${direction}: ${mood(early)} early on, ${mood(late)} in the latest notes.`;
+}
+
+// Newest first, one line per topic
+function findObjections({ notes }: DealBriefInput): { aspect: SentimentAspect; line: string }[] {
+  const objections: { aspect: SentimentAspect; line: string }[] = [];
+
+  for (const note of [...notes].reverse()) {
+    const { aspects } = analyzeLexicon(note.content);
+    for (const [aspect, label] of Object.entries(aspects) as [SentimentAspect, string][]) {
+      if (label !== 'negative' || objections.some(o => o.aspect === aspect)) continue;
+      objections.push({ aspect, line: `${ASPECT_LABELS[aspect]}: "${quote(note.content)}"` });
+    }
+    if (objections.length >= MAX_OBJECTIONS) break;
+  }
+
+  return objections.slice(0, MAX_OBJECTIONS);
+}
+
+function suggestNextStep(input: DealBriefInput, objections: { aspect: SentimentAspect }[]): string {
+  // A step the rep already wrote down beats a generic one
+  for (const note of [...input.notes].reverse()) {
+    const steps = extractEntitiesByRules(note.content, formatDate(note.created_at)).next_steps;
+    if (steps.length > 0) return steps[0][0].toUpperCase() + steps[0].slice(1);
+  }
+
+  if (objections.length > 0) return `Address the ${ASPECT_LABELS[objections[0].aspect].toLowerCase()} concern`;
+  return STAGE_NEXT_STEPS[input.deal.stage] ?? 'Follow up';
+}
+
+export function buildBriefByRules(input: DealBriefInput): DealBrief {
+  const objections = findObjections(input);
+  return {
+    standing: describeStanding(input),
+    sentiment_trend: describeTrend(input),
+    objections: objections.map(o => o.line),
+    next_step: suggestNextStep(input, objections)
+  };
+}
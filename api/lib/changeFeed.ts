@@ -0,0 +1,81 @@
+// Source of "something changed" signals for /api/changes. It only needs to
+// report the latest revision; clients pull the actual rows through /api/sync.
+export interface ChangeFeed {
+  latestRevision(): Promise<number>;
+  // Called by /api/sync after it stores a write
+  publish(): Promise<void>;
+  // Pause between polls: up to ms, less if the feed knows of a change sooner
+  // or the signal aborts
+  waitForChange(ms: number, signal: AbortSignal): Promise<void>;
+}
+
+// Resolves after ms, or as soon as the signal aborts
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+  });
+}
+
+// Reads the shared revision sequence. Works against hosted Supabase or a
+// local Postgres started with `supabase start`. The client is loaded on first
+// use so the memory feed never needs a database.
+export function createPostgresChangeFeed(): ChangeFeed {
+  return {
+    async latestRevision() {
+      const { supabase } = await import('./supabase');
+      const { data, error } = await supabase.rpc('latest_sync_revision');
+      if (error) throw error;
+      return Number(data) || 0;
+    },
+    async publish() {
+      // Nothing to do: every write already moved the revision sequence
+    },
+    waitForChange(ms, signal) {
+      // Other instances' writes only show up by polling
+      return sleep(ms, signal);
+    }
+  };
+}
+
+// In-memory stand-in for tests and database-free local runs. Waiting
+// subscribers wake on publish, so nothing depends on the poll interval.
+export function createMemoryChangeFeed(initialRevision = 0): ChangeFeed {
+  let revision = initialRevision;
+  const waiters = new Set<() => void>();
+  return {
+    async latestRevision() {
+      return revision;
+    },
+    async publish() {
+      revision += 1;
+      waiters.forEach(wake => wake());
+    },
+    async waitForChange(ms, signal) {
+      const wake = new AbortController();
+      const stop = () => wake.abort();
+      waiters.add(stop);
+      signal.addEventListener('abort', stop);
+      await sleep(ms, wake.signal);
+      waiters.delete(stop);
+      signal.removeEventListener('abort', stop);
+    }
+  };
+}
+
+let memoryFeed: ChangeFeed | null = null;
+
+// CHANGE_FEED=memory selects the in-memory feed; anything else uses Postgres
+export function getChangeFeed(): ChangeFeed {
+  if (process.env.CHANGE_FEED === 'memory') {
+    memoryFeed ??= createMemoryChangeFeed();
+    return memoryFeed;
+  }
+  return createPostgresChangeFeed();
+}
@@ -0,0 +1,11 @@
+// Sync cursors are opaque to clients; today they wrap the revision sequence value
+
+export function decodeCursor(cursor: string | null): number {
+  if (!cursor) return 0;
+  const revision = parseInt(cursor, 10);
+  return isNaN(revision) || revision < 0 ? 0 : revision;
+}
+
+export function encodeCursor(revision: number): string | null {
+  return revision > 0 ? String(revision) : null;
+}
@@ -0,0 +1,192 @@
+import type { NoteEntities } from './types';
+
+// Rule-based entity extraction, used when no model is available. Catches the
+// usual shapes of a rep's shorthand ("Spoke to Jane, CFO at Acme Corp",
+// "budget is 40k", "decision by March 15"); anything phrased differently is missed.
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3,
+  may: 4, jun: 5, june: 5, jul: 6, july: 6, aug: 7, august: 7, sep: 8, sept: 8,
+  september: 8, oct: 9, october: 9, nov: 10, november: 10, dec: 11, december: 11
+};
+const MONTH_NAMES = Object.keys(MONTHS).join('|');
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const ROLE = String.raw`C[EFTOIRM]O|CRO|VP(?: of [A-Z][a-z]+)?|Head of [A-Z][a-z]+|(?:[A-Z][a-z]+ )?(?:Director|Manager|Lead)|Founder|Owner|President|Champion|Procurement|Legal`;
+const NAME = String.raw`[A-Z][a-z]+(?: [A-Z][a-z]+)?`;
+
+const NAME_THEN_ROLE = new RegExp(String.raw`\b(${NAME}),? \(?(?:the |our |their )?(${ROLE})\b`, 'g');
+const ROLE_THEN_NAME = new RegExp(String.raw`\b(${ROLE}),? (${NAME})\b`, 'g');
+const CONTACT_VERB = new RegExp(String.raw`\b(?:[Ss]poke|[Tt]alked|[Mm]et|[Cc]alled|[Ee]mailed|[Hh]eard back|[Ii]ntro(?:duced)?)(?: to| with| from)? (${NAME})\b`, 'g');
+
+// Capitalized words that start a note but aren't people
+const NOT_NAMES = new Set([
+  'The', 'They', 'We', 'She', 'He', 'Their', 'Our', 'Budget', 'Meeting', 'Call', 'Demo', 'Next',
+  ...Object.keys(MONTHS).map(m => m[0].toUpperCase() + m.slice(1)),
+  ...WEEKDAYS.map(d => d[0].toUpperCase() + d.slice(1))
+]);
+
+// Only names with a company suffix count: a bare capitalized word after "at"
+// is as often a place or a product
+const COMPANY = /\b(?:at|from|with|for|of) ((?:[A-Z][\w&'-]* ){1,3}(?:Inc|Corp|Corporation|Ltd|Limited|LLC|GmbH|Group|Holdings|plc)\b\.?)/g;
+
+const COMPETITOR_TRIGGER = /\b(?:looking at|evaluating|considering|compared to|comparing us (?:to|with)|going with|went with|versus|vs\.?|competitors?(?: is| are)?|competing with|switching to|incumbent is)\s+((?:the\s+)?\S+(?:\s+\S+){0,2})/gi;
+
+const MONEY = /(?:([$€£])\s?(\d[\d,]*(?:\.\d+)?)\s?(k|m|mm|thousand|million)?\b|\b(\d[\d,]*(?:\.\d+)?)\s?(k|m|mm|thousand|million)\b)/gi;
+const BUDGET_WORDS = /\b(?:budget|budgeted|spend|price|pricing|cost|pay|afford|quote|deal size|value)\b/i;
+// "$25 per seat", "$2k/month": a unit price, not what the deal is worth
+const PER_UNIT = /^\s*(?:(?:\/|per|an?|each)\s*(?:seat|user|licen[cs]e|head|person|agent|month|mo)s?\b|each\b|monthly\b)/i;
+
+const DATE_PATTERNS = [
+  /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+  new RegExp(String.raw`\b(${MONTH_NAMES})\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?\b`, 'gi'),
+  new RegExp(String.raw`\b(\d{1,2})(?:st|nd|rd|th)? (?:of )?(${MONTH_NAMES})(?:,? (\d{4}))?\b`, 'gi'),
+  new RegExp(String.raw`\b(${WEEKDAYS.join('|')})\b`, 'gi')
+];
+const DECISION_CONTEXT = /\b(?:decision|decide|deciding|close|closing|sign|signing|signed|contract|go[ -]?live|deadline|by)\b/i;
+const MEETING_CONTEXT = /\b(?:meeting|meet|call|demo|review|workshop|lunch|presentation)\b/i;
+
+const NEXT_STEP_LABEL = /^next steps?\s*[:-]?\s*/i;
+const ACTION_START = /^(?:(?:we|i) (?:need to|will|'ll)|i'll|we'll|need to|follow up|send|schedule|book|set up|share|prepare|get back)\b/i;
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month, day));
+  if (date.getUTCMonth() !== month || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function parseAmount(digits: string, suffix: string | undefined): number | null {
+  const base = parseFloat(digits.replace(/,/g, ''));
+  if (isNaN(base)) return null;
+  const multiplier = !suffix ? 1 : /^(?:k|thousand)$/i.test(suffix) ? 1_000 : 1_000_000;
+  return Math.round(base * multiplier);
+}
+
+function leadingCapitalized(phrase: string): string | null {
+  const words = phrase.replace(/^the\s+/i, '').split(/\s+/);
+  const taken: string[] = [];
+  for (const word of words) {
+    const clean = word.replace(/[,.;:!?)]+$/, '');
+    if (!/^[A-Z0-9]/.test(clean)) break;
+    taken.push(clean);
+    if (clean !== word) break;
+  }
+  return taken.length > 0 ? taken.join(' ') : null;
+}
+
+function extractContacts(text: string): NoteEntities['contacts'] {
+  const contacts = new Map<string, string | null>();
+  const add = (name: string, role: string | null) => {
+    if (NOT_NAMES.has(name.split(' ')[0])) return;
+    if (!contacts.has(name) || (role && !contacts.get(name))) contacts.set(name, role);
+  };
+
+  for (const match of text.matchAll(NAME_THEN_ROLE)) add(match[1], match[2]);
+  for (const match of text.matchAll(ROLE_THEN_NAME)) add(match[2], match[1]);
+  for (const match of text.matchAll(CONTACT_VERB)) add(match[1], null);
+
+  return [...contacts].map(([name, role]) => ({ name, role }));
+}
+
+// The first company named that isn't a competitor
+function extractCustomer(text: string, competitors: string[]): string | null {
+  for (const match of text.matchAll(COMPANY)) {
+    const name = match[1].replace(/\.$/, '');
+    if (!competitors.some(competitor => name.startsWith(competitor))) return name;
+  }
+  return null;
+}
+
+function extractCompetitors(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(COMPETITOR_TRIGGER)) {
+    const name = leadingCapitalized(match[1]);
+    if (name && !NOT_NAMES.has(name)) names.add(name);
+  }
+  return [...names];
+}
+
+function extractBudgets(text: string): number[] {
+  const amounts: number[] = [];
+  for (const sentence of text.split(/[.!?;\n]+/)) {
+    for (const match of sentence.matchAll(MONEY)) {
+      const hasCurrency = match[1] !== undefined;
+      // A bare "40k" could be seats or users; only count it next to money talk
+      if (!hasCurrency && !BUDGET_WORDS.test(sentence)) continue;
+      if (PER_UNIT.test(sentence.slice(match.index! + match[0].length))) continue;
+      const amount = hasCurrency ? parseAmount(match[2], match[3]) : parseAmount(match[4], match[5]);
+      if (amount !== null && amount > 0 && !amounts.includes(amount)) amounts.push(amount);
+    }
+  }
+  return amounts;
+}
+
+// Dates without a year are taken as the next occurrence, since notes are
+// mostly about what happens next
+function extractDates(text: string, referenceDate: string): NoteEntities['dates'] {
+  const reference = new Date(`${referenceDate}T00:00:00Z`);
+  const dates: NoteEntities['dates'] = [];
+
+  for (const clause of text.split(/[.!?;\n,]+/)) {
+    const found: { date: string | null; index: number; text: string }[] = [];
+
+    for (const match of clause.matchAll(DATE_PATTERNS[0])) {
+      found.push({ date: toIsoDate(+match[1], +match[2] - 1, +match[3]), index: match.index!, text: match[0] });
+    }
+    for (const [pattern, monthGroup, dayGroup] of [[DATE_PATTERNS[1], 1, 2], [DATE_PATTERNS[2], 2, 1]] as const) {
+      for (const match of clause.matchAll(pattern)) {
+        const month = MONTHS[match[monthGroup].toLowerCase()];
+        const day = +match[dayGroup];
+        let year = match[3] ? +match[3] : reference.getUTCFullYear();
+        let date = toIsoDate(year, month, day);
+        if (!match[3] && date && date < referenceDate) {
+          year += 1;
+          date = toIsoDate(year, month, day);
+        }
+        found.push({ date, index: match.index!, text: match[0] });
+      }
+    }
+    for (const match of clause.matchAll(DATE_PATTERNS[3])) {
+      const ahead = (WEEKDAYS.indexOf(match[1].toLowerCase()) - reference.getUTCDay() + 7) % 7 || 7;
+      const date = new Date(reference.getTime() + ahead * 24 * 60 * 60 * 1000);
+      found.push({ date: date.toISOString().slice(0, 10), index: match.index!, text: match[0] });
+    }
+
+    for (const { date, index, text: dateText } of found) {
+      if (!date || dates.some(d => d.date === date)) continue;
+      const before = clause.slice(0, index);
+      const kind = DECISION_CONTEXT.test(before) ? 'decision' : MEETING_CONTEXT.test(before) ? 'meeting' : 'other';
+      dates.push({ date, kind, text: dateText });
+    }
+  }
+
+  return dates;
+}
+
+function extractNextSteps(text: string): string[] {
+  const steps: string[] = [];
+  for (const sentence of text.split(/[.!?;\n]+/)) {
+    const trimmed = sentence.trim();
+    if (NEXT_STEP_LABEL.test(trimmed)) {
+      const rest = trimmed.replace(NEXT_STEP_LABEL, '');
+      steps.push(...rest.split(/,\s*(?:and\s+)?|\s+and\s+/).map(s => s.trim()).filter(Boolean));
+    } else if (ACTION_START.test(trimmed)) {
+      steps.push(trimmed);
+    }
+  }
+  return steps;
+}
+
+// referenceDate (YYYY-MM-DD) anchors dates like "March 15" and "Tuesday"
+export function extractEntitiesByRules(text: string, referenceDate: string): NoteEntities {
+  const competitors = extractCompetitors(text);
+  return {
+    customer: extractCustomer(text, competitors),
+    contacts: extractContacts(text),
+    budgets: extractBudgets(text),
+    competitors,
+    dates: extractDates(text, referenceDate),
+    next_steps: extractNextSteps(text)
+  };
+}
@@ -0,0 +1,92 @@
+import { analyzeLexicon } from '../../shared/lexicon';
+import type { LossTheme, LossThemeInput, SentimentAspects } from './types';
+
+// Keyword fallback for loss themes: each note goes to the first theme it
+// matches, and themes are ranked by how many lost deals they touch. Like the
+// model prompt, a theme has to recur: two deals, unless there are fewer than four.
+
+interface ThemeRule {
+  theme: string;
+  matches: (tokens: Set<string>, aspects: SentimentAspects) => boolean;
+}
+
+const hasAny = (tokens: Set<string>, words: string[]) => words.some(word => tokens.has(word));
+
+// Most specific first
+const THEME_RULES: ThemeRule[] = [
+  {
+    theme: 'Undercut by a competitor on price',
+    matches: (tokens, aspects) => aspects.price === 'negative' && aspects.competitor !== undefined
+  },
+  {
+    theme: 'Budget cut or frozen',
+    matches: tokens => hasAny(tokens, ['budget', 'budgets']) && hasAny(tokens, ['cut', 'cuts', 'frozen', 'freeze', 'slashed', 'layoffs'])
+  },
+  {
+    theme: 'Too expensive',
+    matches: (_, aspects) => aspects.price === 'negative'
+  },
+  {
+    theme: 'Lost to a competitor',
+    matches: (_, aspects) => aspects.competitor === 'negative'
+  },
+  {
+    theme: 'Timing slipped',
+    matches: (_, aspects) => aspects.timing === 'negative'
+  },
+  {
+    theme: 'Product gaps',
+    matches: (_, aspects) => aspects.fit === 'negative'
+  },
+  {
+    theme: 'Went quiet',
+    matches: tokens => hasAny(tokens, ['ghosted', 'unresponsive', 'silent', 'silence', 'quiet'])
+  }
+];
+
+const MAX_QUOTES = 3;
+const QUOTE_LENGTH = 120;
+
+function quote(text: string): string {
+  const line = text.trim().replace(/\s+/g, ' ');
+  return line.length > QUOTE_LENGTH ? `${line.slice(0, QUOTE_LENGTH - 1)}…` : line;
+}
+
+export function findLossThemesByRules({ deals, notes }: LossThemeInput): LossTheme[] {
+  const dealNames = new Map(deals.map(d => [d.id, d.name]));
+  const clusters = new Map<string, { dealIds: Set<string>; notes: LossThemeInput['notes'] }>();
+
+  for (const note of notes) {
+    const tokens = new Set(note.content.toLowerCase().split(/[^a-z']+/));
+    const { aspects } = analyzeLexicon(note.content);
+    const rule = THEME_RULES.find(r => r.matches(tokens, aspects));
+    if (!rule) continue;
+
+    const cluster = clusters.get(rule.theme) ?? { dealIds: new Set<string>(), notes: [] };
+    cluster.dealIds.add(note.deal_id);
+    cluster.notes.push(note);
+    clusters.set(rule.theme, cluster);
+  }
+
+  const minDeals = deals.length < 4 ? 1 : 2;
+
+  return [...clusters]
+    .filter(([, cluster]) => cluster.dealIds.size >= minDeals)
+    .map(([theme, cluster]) => {
+      // Newest first, one quote per deal
+      const quoted = new Set<string>();
+      const quotes = [...cluster.notes]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .filter(note => !quoted.has(note.deal_id) && quoted.add(note.deal_id))
+        .slice(0, MAX_QUOTES)
+        .map(note => ({ deal_name: dealNames.get(note.deal_id) ?? 'Unknown deal', text: quote(note.content) }));
+
+      return {
+        theme,
+        summary: `Comes up in ${cluster.dealIds.size} of ${deals.length} lost deals`,
+        deal_count: cluster.dealIds.size,
+        quotes
+      };
+    })
+    .sort((a, b) => b.deal_count - a.deal_count);
+}
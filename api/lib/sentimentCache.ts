@@ -0,0 +1,85 @@
+import { SENTIMENT_PROMPT_VERSION, type SentimentProvider, type SentimentScore } from './sentimentProviders';
+
+// Model scores by note text, so re-syncs and backfills of the same text don't
+// call the model again. SENTIMENT_CACHE_TTL_HOURS=0 turns the cache off.
+const DEFAULT_TTL_HOURS = 30 * 24;
+
+function ttlHours(): number {
+  const hours = parseFloat(process.env.SENTIMENT_CACHE_TTL_HOURS ?? '');
+  return isNaN(hours) || hours < 0 ? DEFAULT_TTL_HOURS : hours;
+}
+
+// Providers that call a model over the network. The lexicon and stub answer
+// in microseconds, far quicker than a cache round trip.
+const REMOTE_PROVIDERS = new Set(['gemini', 'openai']);
+
+// Setups without a database run fine; they just don't cache
+export function isSentimentCacheEnabled(provider: SentimentProvider): boolean {
+  return REMOTE_PROVIDERS.has(provider.name) &&
+    ttlHours() > 0 &&
+    !!process.env.SUPABASE_URL &&
+    !!process.env.SUPABASE_ANON_KEY;
+}
+
+// Loaded on first use: the client throws at load time when Supabase isn't
+// configured, and that must not take /api/sentiment down with it
+async function getSupabase() {
+  const { supabase } = await import('./supabase');
+  return supabase;
+}
+
+// Case and spacing don't change a score
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// SHA-256 of the provider, its model, the prompt version and the normalized
+// text, so switching models or prompts never serves the old scores
+export async function sentimentCacheKey(text: string, provider: SentimentProvider): Promise<string> {
+  const input = `${provider.name}\n${provider.modelId}\n${SENTIMENT_PROMPT_VERSION}\n${normalizeText(text)}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Unexpired entries by key. A cache failure only costs a model call, so it's
+// logged and treated as a miss.
+export async function getCachedSentiments(keys: string[]): Promise<Map<string, SentimentScore>> {
+  const hits = new Map<string, SentimentScore>();
+  if (keys.length === 0) return hits;
+
+  let rows: { key: string; result: unknown }[] | null;
+  try {
+    const { data, error } = await (await getSupabase())
+      .from('sentiment_cache')
+      .select('key, result')
+      .in('key', [...new Set(keys)])
+      .gt('expires_at', new Date().toISOString());
+    if (error) throw error;
+    rows = data;
+  } catch (error) {
+    console.error('Sentiment cache lookup failed:', error);
+    return hits;
+  }
+
+  for (const row of rows ?? []) {
+    hits.set(row.key, row.result as SentimentScore);
+  }
+  return hits;
+}
+
+export async function cacheSentiment(key: string, provider: SentimentProvider, result: SentimentScore): Promise<void> {
+  try {
+    const { error } = await (await getSupabase())
+      .from('sentiment_cache')
+      .upsert({
+        key,
+        provider: provider.name,
+        model: provider.modelId,
+        result,
+        expires_at: new Date(Date.now() + ttlHours() * 60 * 60 * 1000).toISOString()
+      });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Sentiment cache write failed:', error);
+  }
+}
@@ -1,11 +1,36 @@
+import type { SentimentAspect, SentimentAspects } from '../../shared/lexicon';
+
 export type DealStage = 'prospect' | 'qualified' | 'proposal' | 'negotiation' | 'closing';
 
+// Deal fields merged individually during sync (mirrors the client's DEAL_FIELDS)
+export const DEAL_FIELDS = [
+  'name',
+  'value',
+  'status',
+  'loss_reason',
+  'archived',
+  'expected_close_date',
+  'customer_name',
+  'stage',
+  'suggested_loss_reason'
+] as const;
+
+export type DealField = typeof DEAL_FIELDS[number];
+
+export type LossReason = 'price' | 'timing' | 'competitor' | 'fit' | 'other';
+
+// A loss reason read from a deal's notes, with the line that explains it
+export interface LossReasonSuggestion {
+  reason: LossReason;
+  justification: string;
+}
+
 export interface Deal {
   id: string;
   name: string;
   value: number;
   status: 'open' | 'won' | 'lost';
-  loss_reason: 'price' | 'timing' | 'competitor' | 'fit' | 'other' | null;
+  loss_reason: LossReason | null;
   created_at: string;
   updated_at: string;
   // v4 fields
@@ -13,6 +38,77 @@ export interface Deal {
   expected_close_date: string | null;
   customer_name: string | null;
   stage: DealStage;
+  // What the app suggested when the deal was marked lost; compare with
+  // loss_reason to see whether the rep accepted it
+  suggested_loss_reason?: LossReason | null;
+  // Server-assigned change sequence (set by trigger, never by clients)
+  revision?: number;
+  // Revision at which each field last changed (set by trigger)
+  field_revisions?: Partial<Record<DealField, number>>;
+  // Sent by clients: fields edited locally, and the revision those edits started from
+  changed_fields?: DealField[];
+  base_revision?: number | null;
+}
+
+// Same field edited on two devices since the sender's base revision
+export interface DealConflict {
+  deal_id: string;
+  field: DealField;
+  local_value: unknown;
+  server_value: unknown;
+  server_revision: number;
+}
+
+// An uploaded row the server refused to store
+export interface RejectedItem {
+  id: string;
+  reason: string;
+}
+
+// Topics a note can be about, matching the loss reasons a rep can pick, and
+// the polarity per topic the note mentions. Defined with the shared lexicon.
+export type { SentimentAspect, SentimentAspects };
+
+// Lost deals and their notes, as read by /api/loss-themes
+export interface LossThemeInput {
+  deals: Pick<Deal, 'id' | 'name' | 'loss_reason'>[];
+  notes: Pick<Note, 'deal_id' | 'content' | 'created_at'>[];
+}
+
+// A reason that keeps coming up across lost deals, with quotes from the notes
+export interface LossTheme {
+  theme: string;
+  summary: string;
+  deal_count: number;
+  quotes: { deal_name: string; text: string }[];
+}
+
+// What /api/brief reads: the deal's fields and its notes, oldest first
+export interface DealBriefInput {
+  deal: Pick<Deal, 'name' | 'value' | 'status' | 'stage' | 'expected_close_date' | 'customer_name'>;
+  notes: Pick<Note, 'content' | 'created_at' | 'sentiment_label' | 'sentiment_score'>[];
+}
+
+// Meeting-prep summary of a deal
+export interface DealBrief {
+  standing: string;
+  sentiment_trend: string;
+  objections: string[];
+  next_step: string;
+}
+
+// Structured facts pulled out of a note by /api/extract
+export interface NoteEntities {
+  // The customer's company, when the note names it
+  customer: string | null;
+  contacts: { name: string; role: string | null }[];
+  // Total budget or deal-size amounts, in whole currency units. Unit prices
+  // (per seat, per month) are left out.
+  budgets: number[];
+  competitors: string[];
+  // ISO dates (YYYY-MM-DD). decision: when the customer decides or signs
+  dates: { date: string; kind: 'decision' | 'meeting' | 'other'; text: string }[];
+  next_steps: string[];
 }
 
 export interface Note {
@@ -21,6 +117,37 @@ export interface Note {
   content: string;
   sentiment_score: number | null;
   sentiment_label: 'positive' | 'neutral' | 'negative' | null;
+  // model = configured provider, fallback = server lexicon after a provider failure,
+  // local = provisional on-device score, manual = set by a rep
+  sentiment_source?: 'model' | 'fallback' | 'local' | 'manual' | null;
+  sentiment_confidence?: number | null;
+  // ID of the model that produced the score (see lib/sentimentProviders), and its exact version
+  sentiment_model?: string | null;
+  sentiment_model_version?: string | null;
+  sentiment_aspects?: SentimentAspects | null;
+  created_at: string;
+  // Server-assigned change sequence (set by trigger, never by clients)
+  revision?: number;
+}
+
+// Record of a hard-deleted row, written by an AFTER DELETE trigger
+export interface Tombstone {
+  entity_type: 'deal' | 'note';
+  entity_id: string;
+  deleted_at: string;
+  revision?: number;
+}
+
+// A rep's correction of a note's sentiment label, kept to measure provider accuracy
+export interface SentimentFeedback {
+  id: string;
+  note_id: string;
+  original_label: 'positive' | 'neutral' | 'negative' | null;
+  original_score: number | null;
+  original_source: 'model' | 'fallback' | 'local' | 'manual' | null;
+  original_model: string | null;
+  original_model_version: string | null;
+  corrected_label: 'positive' | 'neutral' | 'negative';
   created_at: string;
 }
 
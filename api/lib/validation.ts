@@ -0,0 +1,115 @@
+import type { Deal, DealBriefInput, Note, SentimentFeedback } from './types';
+
+const DEAL_STATUSES = ['open', 'won', 'lost'];
+const LOSS_REASONS = ['price', 'timing', 'competitor', 'fit', 'other'];
+const DEAL_STAGES = ['prospect', 'qualified', 'proposal', 'negotiation', 'closing'];
+const SENTIMENT_LABELS = ['positive', 'neutral', 'negative'];
+const SENTIMENT_SOURCES = ['model', 'fallback', 'local', 'manual'];
+const SENTIMENT_ASPECTS = ['price', 'timing', 'competitor', 'fit'];
+
+// Longest note text the model endpoints accept (413 above it). Longer notes
+// still sync; they just can't be sent for analysis.
+export const MAX_NOTE_LENGTH = 20000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+// Returns a human-readable reason the deal can't be stored, or null if it's valid
+export function validateDeal(deal: Deal): string | null {
+  if (typeof deal.id !== 'string' || !UUID_PATTERN.test(deal.id)) return 'Invalid id';
+  if (typeof deal.name !== 'string' || deal.name.trim().length === 0) return 'Name is required';
+  if (typeof deal.value !== 'number' || !isFinite(deal.value) || deal.value < 0) {
+    return 'Value must be a non-negative number';
+  }
+  if (!DEAL_STATUSES.includes(deal.status)) return `Unknown status "${deal.status}"`;
+  if (deal.loss_reason !== null && deal.loss_reason !== undefined && !LOSS_REASONS.includes(deal.loss_reason)) {
+    return `Unknown loss reason "${deal.loss_reason}"`;
+  }
+  if (deal.suggested_loss_reason !== null && deal.suggested_loss_reason !== undefined && !LOSS_REASONS.includes(deal.suggested_loss_reason)) {
+    return `Unknown loss reason "${deal.suggested_loss_reason}"`;
+  }
+  if (deal.stage !== undefined && !DEAL_STAGES.includes(deal.stage)) return `Unknown stage "${deal.stage}"`;
+  if (deal.expected_close_date && !isValidDate(deal.expected_close_date)) return 'Invalid expected close date';
+  if (!isValidDate(deal.created_at) || !isValidDate(deal.updated_at)) return 'Invalid timestamps';
+  return null;
+}
+
+export function validateNote(note: Note): string | null {
+  if (typeof note.id !== 'string' || !UUID_PATTERN.test(note.id)) return 'Invalid id';
+  if (typeof note.deal_id !== 'string' || !UUID_PATTERN.test(note.deal_id)) return 'Invalid deal_id';
+  if (typeof note.content !== 'string' || note.content.trim().length === 0) return 'Content is required';
+  if (note.sentiment_score !== null && note.sentiment_score !== undefined) {
+    if (typeof note.sentiment_score !== 'number' || note.sentiment_score < -1 || note.sentiment_score > 1) {
+      return 'Sentiment score must be between -1 and 1';
+    }
+  }
+  if (note.sentiment_label !== null && note.sentiment_label !== undefined && !SENTIMENT_LABELS.includes(note.sentiment_label)) {
+    return `Unknown sentiment label "${note.sentiment_label}"`;
+  }
+  if (note.sentiment_source !== null && note.sentiment_source !== undefined && !SENTIMENT_SOURCES.includes(note.sentiment_source)) {
+    return `Unknown sentiment source "${note.sentiment_source}"`;
+  }
+  if (note.sentiment_confidence !== null && note.sentiment_confidence !== undefined) {
+    if (typeof note.sentiment_confidence !== 'number' || note.sentiment_confidence < 0 || note.sentiment_confidence > 1) {
+      return 'Sentiment confidence must be between 0 and 1';
+    }
+  }
+  for (const value of [note.sentiment_model, note.sentiment_model_version]) {
+    if (value !== null && value !== undefined && (typeof value !== 'string' || value.length > 100)) {
+      return 'Invalid sentiment model';
+    }
+  }
+  if (note.sentiment_aspects !== null && note.sentiment_aspects !== undefined) {
+    if (typeof note.sentiment_aspects !== 'object' || Array.isArray(note.sentiment_aspects)) {
+      return 'Invalid sentiment aspects';
+    }
+    for (const [aspect, label] of Object.entries(note.sentiment_aspects)) {
+      if (!SENTIMENT_ASPECTS.includes(aspect)) return `Unknown sentiment aspect "${aspect}"`;
+      if (!SENTIMENT_LABELS.includes(label as string)) return `Unknown sentiment label "${label}"`;
+    }
+  }
+  if (!isValidDate(note.created_at)) return 'Invalid created_at';
+  return null;
+}
+
+export function validateFeedback(feedback: SentimentFeedback): string | null {
+  if (typeof feedback.id !== 'string' || !UUID_PATTERN.test(feedback.id)) return 'Invalid id';
+  if (typeof feedback.note_id !== 'string' || !UUID_PATTERN.test(feedback.note_id)) return 'Invalid note_id';
+  if (!SENTIMENT_LABELS.includes(feedback.corrected_label)) {
+    return `Unknown sentiment label "${feedback.corrected_label}"`;
+  }
+  if (feedback.original_label !== null && !SENTIMENT_LABELS.includes(feedback.original_label)) {
+    return `Unknown sentiment label "${feedback.original_label}"`;
+  }
+  if (feedback.original_source !== null && !SENTIMENT_SOURCES.includes(feedback.original_source)) {
+    return `Unknown sentiment source "${feedback.original_source}"`;
+  }
+  if (!isValidDate(feedback.created_at)) return 'Invalid created_at';
+  return null;
+}
+
+export function validateBriefInput(input: DealBriefInput): string | null {
+  const { deal, notes } = input ?? {};
+  if (!deal || typeof deal !== 'object') return 'Deal is required';
+  if (typeof deal.name !== 'string' || deal.name.trim().length === 0) return 'Name is required';
+  if (typeof deal.value !== 'number' || !isFinite(deal.value)) return 'Value must be a number';
+  if (!DEAL_STATUSES.includes(deal.status)) return `Unknown status "${deal.status}"`;
+  if (!DEAL_STAGES.includes(deal.stage)) return `Unknown stage "${deal.stage}"`;
+  if (deal.expected_close_date && !isValidDate(deal.expected_close_date)) return 'Invalid expected close date';
+
+  if (!Array.isArray(notes)) return 'Notes must be an array';
+  for (const note of notes) {
+    if (typeof note?.content !== 'string' || note.content.trim().length === 0) return 'Content is required';
+    if (!isValidDate(note.created_at)) return 'Invalid created_at';
+    if (note.sentiment_label !== null && note.sentiment_label !== undefined && !SENTIMENT_LABELS.includes(note.sentiment_label)) {
+      return `Unknown sentiment label "${note.sentiment_label}"`;
+    }
+    if (note.sentiment_score !== null && note.sentiment_score !== undefined && typeof note.sentiment_score !== 'number') {
+      return 'Sentiment score must be a number';
+    }
+  }
+  return null;
+}
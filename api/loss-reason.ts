@@ -0,0 +1,92 @@
+import { jsonResponse, errorResponse, handleOptions } from './lib/api-helpers';
+import {
+  getSentimentProvider,
+  createLexiconProvider,
+  type LossReasonResult,
+  type SentimentProvider
+} from './lib/sentimentProviders';
+import { MAX_NOTE_LENGTH } from './lib/validation';
+import type { LossReasonSuggestion } from './lib/types';
+
+export const config = { runtime: 'edge' };
+
+interface LossReasonRequest {
+  // The deal's note texts, newest first
+  notes?: string[];
+}
+
+const MAX_NOTES = 50;
+
+interface LossReasonResponse {
+  suggestion: LossReasonSuggestion | null;
+  // Same meaning as in /api/sentiment: 'fallback' means the keyword rules answered
+  source: 'model' | 'fallback';
+  model: string;
+  model_version: string;
+}
+
+export default async function handler(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return handleOptions();
+  }
+
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  let body: LossReasonRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (!Array.isArray(body.notes) || body.notes.length === 0) {
+    return errorResponse('Notes must be a non-empty array', 400);
+  }
+  if (body.notes.length > MAX_NOTES) {
+    return errorResponse(`At most ${MAX_NOTES} notes per request`, 400);
+  }
+  if (body.notes.some(note => typeof note !== 'string' || note.trim().length === 0)) {
+    return errorResponse('Every note must be a non-empty string', 400);
+  }
+  if (body.notes.some(note => note.length > MAX_NOTE_LENGTH)) {
+    return errorResponse(`Notes must be at most ${MAX_NOTE_LENGTH} characters`, 413);
+  }
+
+  try {
+    return jsonResponse(await suggestLossReason(body.notes));
+  } catch (error: any) {
+    console.error('Loss reason API error:', error);
+    return errorResponse('Loss reason suggestion failed', 500);
+  }
+}
+
+// Falls back to the keyword rules when the configured provider fails
+async function suggestLossReason(notes: string[]): Promise<LossReasonResponse> {
+  const provider = getSentimentProvider();
+
+  if (provider) {
+    try {
+      return withProvenance(await provider.suggestLossReason(notes), provider, 'model');
+    } catch (error) {
+      console.error(`Loss reason provider ${provider.name} failed:`, error);
+    }
+  }
+
+  const fallback = createLexiconProvider();
+  return withProvenance(await fallback.suggestLossReason(notes), fallback, 'fallback');
+}
+
+function withProvenance(
+  result: LossReasonResult,
+  provider: SentimentProvider,
+  source: LossReasonResponse['source']
+): LossReasonResponse {
+  return {
+    suggestion: result.suggestion,
+    source,
+    model: provider.modelId,
+    model_version: result.model_version || provider.modelId
+  };
+}
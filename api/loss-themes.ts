@@ -0,0 +1,124 @@
+import { supabase } from './lib/supabase';
+import { jsonResponse, errorResponse, handleOptions } from './lib/api-helpers';
+import {
+  getSentimentProvider,
+  createLexiconProvider,
+  type LossThemesResult,
+  type SentimentProvider
+} from './lib/sentimentProviders';
+import type { LossReason, LossTheme, LossThemeInput } from './lib/types';
+
+export const config = { runtime: 'edge' };
+
+const LOSS_REASONS: LossReason[] = ['price', 'timing', 'competitor', 'fit', 'other'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// The most recently lost deals and each one's latest notes, so the prompt
+// stays bounded and a few long-running deals can't crowd out the rest
+const MAX_DEALS = 60;
+const NOTES_PER_DEAL = 3;
+
+interface LossThemesResponse {
+  themes: LossTheme[];
+  // How many lost deals were analyzed: those matching the filters, at most MAX_DEALS
+  deal_count: number;
+  // Same meaning as in /api/sentiment: 'fallback' means the keyword rules answered
+  source: 'model' | 'fallback';
+  model: string;
+  model_version: string;
+}
+
+// GET /api/loss-themes?reason=price&from=2025-01-01&to=2025-03-31
+// All filters are optional. Dates match when the deal was last updated,
+// which for a lost deal is normally when it was marked lost.
+export default async function handler(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return handleOptions();
+  }
+
+  if (req.method !== 'GET') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const url = new URL(req.url);
+  const reason = url.searchParams.get('reason');
+  const from = url.searchParams.get('from');
+  const to = url.searchParams.get('to');
+
+  if (reason && !LOSS_REASONS.includes(reason as LossReason)) {
+    return errorResponse(`Unknown loss reason "${reason}"`, 400);
+  }
+  for (const date of [from, to]) {
+    if (date && (!DATE_PATTERN.test(date) || isNaN(new Date(date).getTime()))) {
+      return errorResponse('Dates must be YYYY-MM-DD', 400);
+    }
+  }
+
+  try {
+    const input = await loadLostDeals(reason, from, to);
+    if (input.deals.length === 0) {
+      return jsonResponse({ themes: [], deal_count: 0, source: 'fallback', model: 'none', model_version: 'none' });
+    }
+
+    return jsonResponse(await findLossThemes(input));
+  } catch (error: any) {
+    console.error('Loss themes API error:', error);
+    return errorResponse('Loss theme analysis failed', 500);
+  }
+}
+
+async function loadLostDeals(reason: string | null, from: string | null, to: string | null): Promise<LossThemeInput> {
+  let dealQuery = supabase
+    .from('deals')
+    .select('id, name, loss_reason')
+    .eq('status', 'lost');
+  if (reason) dealQuery = dealQuery.eq('loss_reason', reason);
+  if (from) dealQuery = dealQuery.gte('updated_at', `${from}T00:00:00.000Z`);
+  if (to) dealQuery = dealQuery.lte('updated_at', `${to}T23:59:59.999Z`);
+
+  const { data: deals, error: dealsError } = await dealQuery
+    .order('updated_at', { ascending: false })
+    .limit(MAX_DEALS);
+  if (dealsError) throw dealsError;
+  if (!deals || deals.length === 0) return { deals: [], notes: [] };
+
+  // An RPC rather than an id filter: the ids travel in the request body, not the URL
+  const { data: notes, error: notesError } = await supabase.rpc('latest_notes_per_deal', {
+    deal_ids: deals.map(d => d.id),
+    per_deal: NOTES_PER_DEAL
+  });
+  if (notesError) throw notesError;
+
+  return { deals, notes: notes ?? [] };
+}
+
+// Falls back to the keyword rules when the configured provider fails
+async function findLossThemes(input: LossThemeInput): Promise<LossThemesResponse> {
+  const provider = getSentimentProvider();
+
+  if (provider) {
+    try {
+      return withProvenance(await provider.findLossThemes(input), input, provider, 'model');
+    } catch (error) {
+      console.error(`Loss theme provider ${provider.name} failed:`, error);
+    }
+  }
+
+  const fallback = createLexiconProvider();
+  return withProvenance(await fallback.findLossThemes(input), input, fallback, 'fallback');
+}
+
+function withProvenance(
+  result: LossThemesResult,
+  input: LossThemeInput,
+  provider: SentimentProvider,
+  source: LossThemesResponse['source']
+): LossThemesResponse {
+  return {
+    themes: result.themes,
+    deal_count: input.deals.length,
+    source,
+    model: provider.modelId,
+    model_version: result.model_version || provider.modelId
+  };
+}
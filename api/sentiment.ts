@@ -1,14 +1,43 @@
 import { jsonResponse, errorResponse, handleOptions } from './lib/api-helpers';
+import { MAX_NOTE_LENGTH } from './lib/validation';
+import type { SentimentAspects } from './lib/types';
+import {
+  getSentimentProvider,
+  createLexiconProvider,
+  type SentimentProvider,
+  type SentimentScore
+} from './lib/sentimentProviders';
+import {
+  isSentimentCacheEnabled,
+  sentimentCacheKey,
+  getCachedSentiments,
+  cacheSentiment
+} from './lib/sentimentCache';
 
 export const config = { runtime: 'edge' };
 
+// Either one text, or a batch of texts from the client's offline backfill queue
 interface SentimentRequest {
-  text: string;
+  text?: string;
+  texts?: string[];
 }
 
+const MAX_BATCH_SIZE = 20;
+
 interface SentimentResponse {
   score: number;
   label: 'positive' | 'neutral' | 'negative';
+  confidence: number;
+  // Polarity per loss-reason topic (price, timing, competitor, fit) the note mentions
+  aspects: SentimentAspects;
+  // 'model': the configured provider answered. 'fallback': it failed or isn't
+  // configured, and the lexicon scored the note instead.
+  source: 'model' | 'fallback';
+  // ID of the model that produced the score, and the exact version if known
+  model: string;
+  model_version: string;
+  // true when an earlier model score for the same text was reused
+  cached: boolean;
 }
 
 export default async function handler(req: Request) {
@@ -20,141 +49,101 @@ export default async function handler(req: Request) {
     return errorResponse('Method not allowed', 405);
   }
 
+  let body: SentimentRequest;
   try {
-    const body: SentimentRequest = await req.json();
-
-    if (!body.text || body.text.trim().length === 0) {
-      return errorResponse('Text is required', 400);
-    }
-
-    const sentiment = await analyzeSentiment(body.text);
-    return jsonResponse(sentiment);
-
-  } catch (error: any) {
-    console.error('Sentiment API error:', error);
-    // Return neutral on any error (fail gracefully)
-    return jsonResponse({
-      score: 0,
-      label: 'neutral'
-    });
+    body = await req.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
   }
-}
-
-async function analyzeSentiment(text: string): Promise<SentimentResponse> {
-  const apiKey = process.env.GEMINI_API_KEY;
-
-  if (!apiKey) {
-    console.error('GEMINI_API_KEY not configured');
-    return mockSentiment(text);
-  }
-
-  const prompt = `Analyze the sentiment of this sales note. Return ONLY a JSON object with:
-- "score": a number from -1 (very negative) to 1 (very positive)
-- "label": one of "positive", "neutral", or "negative"
-
-Sales note: "${text}"
-
-JSON response:`;
 
   try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                { text: prompt }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: 0,
-            maxOutputTokens: 256
-          }
-        })
+    if (body.texts !== undefined) {
+      if (!Array.isArray(body.texts) || body.texts.length === 0) {
+        return errorResponse('Texts must be a non-empty array', 400);
+      }
+      if (body.texts.length > MAX_BATCH_SIZE) {
+        return errorResponse(`At most ${MAX_BATCH_SIZE} texts per request`, 400);
+      }
+      if (body.texts.some(text => typeof text !== 'string' || text.trim().length === 0)) {
+        return errorResponse('Every text must be a non-empty string', 400);
+      }
+      if (body.texts.some(text => text.length > MAX_NOTE_LENGTH)) {
+        return errorResponse(`Texts must be at most ${MAX_NOTE_LENGTH} characters`, 413);
       }
-    );
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('Gemini API error:', error);
-      // Fall back to mock sentiment on API errors
-      return mockSentiment(text);
+      const results = await analyzeTexts(body.texts);
+      return jsonResponse({ results });
     }
 
-    const data = await response.json();
-    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-    if (!content) {
-      return mockSentiment(text);
+    if (!body.text || typeof body.text !== 'string' || body.text.trim().length === 0) {
+      return errorResponse('Text is required', 400);
     }
-
-    // Extract JSON from the response (handle markdown code blocks)
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return mockSentiment(text);
+    if (body.text.length > MAX_NOTE_LENGTH) {
+      return errorResponse(`Text must be at most ${MAX_NOTE_LENGTH} characters`, 413);
     }
 
-    const result = JSON.parse(jsonMatch[0]);
+    const [sentiment] = await analyzeTexts([body.text]);
+    return jsonResponse(sentiment);
 
-    // Validate and normalize the response
-    return {
-      score: normalizeScore(result.score),
-      label: normalizeLabel(result.label, result.score)
-    };
-  } catch (error) {
-    console.error('Gemini API exception:', error);
-    return mockSentiment(text);
+  } catch (error: any) {
+    console.error('Sentiment API error:', error);
+    // A real failure, not a neutral note: the client scores it locally and retries later
+    return errorResponse('Sentiment analysis failed', 500);
   }
 }
 
-// Fallback sentiment analysis using keyword matching
-function mockSentiment(text: string): SentimentResponse {
-  const lowerText = text.toLowerCase();
-
-  const positiveWords = ['great', 'excited', 'love', 'amazing', 'yes', 'deal', 'sign', 'happy', 'perfect', 'excellent', 'fantastic', 'wonderful'];
-  const negativeWords = ['no', 'cancel', 'competitor', 'budget', 'cut', 'delay', 'problem', 'issue', 'concerned', 'worried', 'lost', 'frozen', 'bad'];
+// Serves cached model scores first, with one lookup for the whole batch
+async function analyzeTexts(texts: string[]): Promise<SentimentResponse[]> {
+  const provider = getSentimentProvider();
+  if (!provider || !isSentimentCacheEnabled(provider)) {
+    return Promise.all(texts.map(text => analyzeSentiment(text, provider, null)));
+  }
 
-  let score = 0;
+  const keys = await Promise.all(texts.map(text => sentimentCacheKey(text, provider)));
+  const hits = await getCachedSentiments(keys);
 
-  for (const word of positiveWords) {
-    if (lowerText.includes(word)) score += 0.25;
-  }
+  return Promise.all(texts.map((text, i) => {
+    const hit = hits.get(keys[i]);
+    return hit ? withProvenance(hit, provider, 'model', true) : analyzeSentiment(text, provider, keys[i]);
+  }));
+}
 
-  for (const word of negativeWords) {
-    if (lowerText.includes(word)) score -= 0.25;
+// Falls back to the lexicon when the configured provider fails, so a score
+// is always returned; source says whether that happened. Only model scores
+// are cached, so a fallback is retried against the model next time.
+async function analyzeSentiment(
+  text: string,
+  provider: SentimentProvider | null,
+  cacheKey: string | null
+): Promise<SentimentResponse> {
+  if (provider) {
+    try {
+      const result = await provider.analyze(text);
+      if (cacheKey) await cacheSentiment(cacheKey, provider, result);
+      return withProvenance(result, provider, 'model', false);
+    } catch (error) {
+      console.error(`Sentiment provider ${provider.name} failed:`, error);
+    }
   }
 
-  score = Math.max(-1, Math.min(1, score)); // Clamp
+  const fallback = createLexiconProvider();
+  return withProvenance(await fallback.analyze(text), fallback, 'fallback', false);
+}
 
+function withProvenance(
+  result: SentimentScore,
+  provider: SentimentProvider,
+  source: SentimentResponse['source'],
+  cached: boolean
+): SentimentResponse {
   return {
-    score: Math.round(score * 100) / 100,
-    label: score > 0.3 ? 'positive' : score < -0.3 ? 'negative' : 'neutral'
+    score: result.score,
+    label: result.label,
+    confidence: result.confidence,
+    aspects: result.aspects,
+    source,
+    model: provider.modelId,
+    model_version: result.model_version || provider.modelId,
+    cached
   };
 }
-
-function normalizeScore(score: any): number {
-  const num = parseFloat(score);
-  if (isNaN(num)) return 0;
-  return Math.max(-1, Math.min(1, num)); // Clamp to [-1, 1]
-}
-
-function normalizeLabel(
-  label: any,
-  score: number
-): 'positive' | 'neutral' | 'negative' {
-  // If valid label provided, use it
-  if (['positive', 'neutral', 'negative'].includes(label)) {
-    return label;
-  }
-
-  // Otherwise derive from score
-  if (score > 0.3) return 'positive';
-  if (score < -0.3) return 'negative';
-  return 'neutral';
-}
@@ -1,22 +1,56 @@
 import { supabase } from './lib/supabase';
 import { jsonResponse, errorResponse, handleOptions } from './lib/api-helpers';
-import type { Deal, Note } from './lib/types';
+import { validateDeal, validateNote, validateFeedback } from './lib/validation';
+import { decodeCursor, encodeCursor } from './lib/cursor';
+import { getChangeFeed } from './lib/changeFeed';
+import {
+  DEAL_FIELDS,
+  type Deal,
+  type DealConflict,
+  type DealField,
+  type Note,
+  type RejectedItem,
+  type SentimentFeedback,
+  type Tombstone
+} from './lib/types';
 
 export const config = { runtime: 'edge' };
 
+// Max rows of each table returned per sync round trip
+const PAGE_SIZE = 500;
+
 interface SyncRequest {
-  lastSync: string | null;
+  // Opaque cursor from the previous response, null for a full pull
+  cursor: string | null;
   changes: {
     deals: Deal[];
     notes: Note[];
+    // Sentiment corrections; append-only, never sent back down
+    feedback?: SentimentFeedback[];
   };
 }
 
 interface SyncResponse {
   serverTime: string;
+  cursor: string | null;
+  hasMore: boolean;
+  accepted: {
+    deals: string[];
+    notes: string[];
+    feedback: string[];
+    revisions: Record<string, number>;
+  };
+  // Rows that failed validation or the database write, with the reason
+  rejected: {
+    deals: RejectedItem[];
+    notes: RejectedItem[];
+    feedback: RejectedItem[];
+  };
+  conflicts: DealConflict[];
   updates: {
     deals: Deal[];
     notes: Note[];
+    tombstones: Tombstone[];
   };
 }
 
@@ -32,22 +66,89 @@ export default async function handler(req: Request) {
   try {
     const body: SyncRequest = await req.json();
     const serverTime = new Date().toISOString();
+    const accepted: SyncResponse['accepted'] = { deals: [], notes: [], feedback: [], revisions: {} };
+    const rejected: SyncResponse['rejected'] = { deals: [], notes: [], feedback: [] };
+    let conflicts: DealConflict[] = [];
+    const incomingDeals = body.changes?.deals ?? [];
+    const incomingNotes = body.changes?.notes ?? [];
+    const incomingFeedback = body.changes?.feedback ?? [];
+
+    // 1. Drop anything already deleted on the server so stale devices can't resurrect it
+    const deleted = await getTombstonesFor(
+      incomingDeals.map(d => d.id).concat(incomingNotes.map(n => n.deal_id)),
+      incomingNotes.map(n => n.id)
+    );
+    const deletedDealIds = new Set(deleted.filter(t => t.entity_type === 'deal').map(t => t.entity_id));
+    const deletedNoteIds = new Set(deleted.filter(t => t.entity_type === 'note').map(t => t.entity_id));
+
+    // 2. Validate each row on its own so one bad row can't fail the batch
+    const deals = incomingDeals.filter(d => {
+      if (deletedDealIds.has(d.id)) return false;
+      const reason = validateDeal(d);
+      if (reason) rejected.deals.push({ id: d.id, reason });
+      return !reason;
+    });
+    const notes = incomingNotes.filter(n => {
+      if (deletedNoteIds.has(n.id) || deletedDealIds.has(n.deal_id)) return false;
+      const reason = validateNote(n);
+      if (reason) rejected.notes.push({ id: n.id, reason });
+      return !reason;
+    });
 
-    // 1. Process incoming deals (upsert with last-write-wins)
-    if (body.changes?.deals?.length > 0) {
-      await upsertDeals(body.changes.deals);
+    // 3. Process incoming deals (field-level merge)
+    if (deals.length > 0) {
+      const result = await mergeDeals(deals);
+      const failed = new Set([...result.rejected.map(r => r.id), ...result.deferred]);
+      accepted.deals = deals.map(d => d.id).filter(id => !failed.has(id));
+      accepted.revisions = result.revisions;
+      rejected.deals.push(...result.rejected);
+      conflicts = result.conflicts;
     }
 
-    // 2. Process incoming notes (append-only)
-    if (body.changes?.notes?.length > 0) {
-      await insertNotes(body.changes.notes);
+    // 4. Process incoming notes (new notes, or backfilled sentiment)
+    if (notes.length > 0) {
+      const failedNotes = await upsertNotes(notes);
+      const failed = new Set(failedNotes.map(r => r.id));
+      accepted.notes = notes.map(n => n.id).filter(id => !failed.has(id));
+      rejected.notes.push(...failedNotes);
     }
 
-    // 3. Fetch updates since lastSync
-    const updates = await getUpdatesSince(body.lastSync);
+    // 4b. Store sentiment corrections (after notes, which they reference)
+    const feedback = incomingFeedback.filter(f => {
+      const reason = validateFeedback(f);
+      if (reason) rejected.feedback.push({ id: f.id, reason });
+      return !reason;
+    });
+    if (feedback.length > 0) {
+      const failedFeedback = await insertFeedback(feedback);
+      const failed = new Set(failedFeedback.map(r => r.id));
+      accepted.feedback = feedback.map(f => f.id).filter(id => !failed.has(id));
+      rejected.feedback.push(...failedFeedback);
+    }
+
+    // Wake other devices' /api/changes streams
+    if (accepted.deals.length > 0 || accepted.notes.length > 0) {
+      await getChangeFeed().publish();
+    }
+
+    // 5. Fetch updates after the client's cursor
+    const { updates, cursor, hasMore } = await getUpdatesSince(body.cursor);
+
+    // Echo tombstones for rejected rows so the sender deletes its copy too
+    const known = new Set(updates.tombstones.map(t => `${t.entity_type}:${t.entity_id}`));
+    for (const tombstone of deleted) {
+      if (!known.has(`${tombstone.entity_type}:${tombstone.entity_id}`)) {
+        updates.tombstones.push(tombstone);
+      }
+    }
 
     return jsonResponse({
       serverTime,
+      cursor,
+      hasMore,
+      accepted,
+      rejected,
+      conflicts,
       updates
     } as SyncResponse);
 
@@ -57,77 +158,325 @@ export default async function handler(req: Request) {
   }
 }
 
-async function upsertDeals(deals: Deal[]): Promise<void> {
-  // Use batch upsert for efficiency
-  const { error } = await supabase
-    .from('deals')
-    .upsert(
-      deals.map(d => ({
-        id: d.id,
-        name: d.name,
-        value: d.value,
-        status: d.status,
-        loss_reason: d.loss_reason,
-        created_at: d.created_at,
-        updated_at: d.updated_at,
-        // v4 fields
-        archived: d.archived ?? false,
-        expected_close_date: d.expected_close_date,
-        customer_name: d.customer_name,
-        stage: d.stage ?? 'prospect'
-      })),
-      {
-        onConflict: 'id',
-        ignoreDuplicates: false
+function toDealRow(d: Deal): Record<string, unknown> {
+  return {
+    id: d.id,
+    name: d.name,
+    value: d.value,
+    status: d.status,
+    loss_reason: d.loss_reason,
+    created_at: d.created_at,
+    updated_at: d.updated_at,
+    // v4 fields
+    archived: d.archived ?? false,
+    expected_close_date: d.expected_close_date,
+    customer_name: d.customer_name,
+    stage: d.stage ?? 'prospect',
+    suggested_loss_reason: d.suggested_loss_reason ?? null
+  };
+}
+
+function sameFieldValue(field: DealField, a: unknown, b: unknown): boolean {
+  if (a == null || b == null) return a == b;
+  if (field === 'expected_close_date') {
+    return new Date(a as string).getTime() === new Date(b as string).getTime();
+  }
+  if (field === 'value') return Number(a) === Number(b);
+  return a === b;
+}
+
+// How often a merge is redone when the deal changes between read and write
+const MERGE_ATTEMPTS = 3;
+
+// Applies the client's changed fields on top of the current server row. A
+// field is only a conflict when it also changed on the server after the
+// client's base revision and the two values differ. row is null when there's
+// nothing left to write.
+function mergeDeal(incoming: Deal, existing: Deal): { row: Record<string, unknown> | null; conflicts: DealConflict[] } {
+  const merged = toDealRow(existing);
+  const conflicts: DealConflict[] = [];
+  let applied = 0;
+
+  for (const field of incoming.changed_fields ?? []) {
+    if (!DEAL_FIELDS.includes(field)) continue;
+
+    const fieldRevision = existing.field_revisions?.[field] ?? 0;
+    if (fieldRevision > incoming.base_revision! && !sameFieldValue(field, existing[field], incoming[field])) {
+      conflicts.push({
+        deal_id: incoming.id,
+        field,
+        local_value: incoming[field],
+        server_value: existing[field],
+        server_revision: existing.revision ?? 0
+      });
+      continue;
+    }
+
+    merged[field] = incoming[field];
+    applied++;
+  }
+
+  if (applied === 0) return { row: null, conflicts };
+  merged.updated_at = incoming.updated_at;
+  return { row: merged, conflicts };
+}
+
+// Merges each deal against the row it read, and only writes if that row's
+// revision is unchanged, so a concurrent sync from another device can't be
+// overwritten. A deal that keeps changing underneath is deferred: neither
+// accepted nor rejected, so the client sends it again next sync.
+async function mergeDeals(deals: Deal[]): Promise<{
+  revisions: Record<string, number>;
+  conflicts: DealConflict[];
+  rejected: RejectedItem[];
+  deferred: string[];
+}> {
+  const revisions: Record<string, number> = {};
+  const conflicts: DealConflict[] = [];
+  const rejected: RejectedItem[] = [];
+  let pending = deals;
+
+  for (let attempt = 1; pending.length > 0 && attempt <= MERGE_ATTEMPTS; attempt++) {
+    const { data: currentRows, error: fetchError } = await supabase
+      .from('deals')
+      .select('*')
+      .in('id', pending.map(d => d.id));
+
+    if (fetchError) throw fetchError;
+
+    const current = new Map<string, Deal>((currentRows || []).map((d: Deal) => [d.id, d]));
+    const wholeRows: Record<string, unknown>[] = [];
+    const changed: Deal[] = [];
+
+    await Promise.all(pending.map(async incoming => {
+      const existing = current.get(incoming.id);
+
+      // New deals, and edits from clients that don't track fields, are taken whole
+      if (!existing || !incoming.changed_fields || incoming.base_revision == null) {
+        wholeRows.push(toDealRow(incoming));
+        return;
       }
-    );
 
-  if (error) throw error;
+      const merge = mergeDeal(incoming, existing);
+      if (!merge.row) {
+        conflicts.push(...merge.conflicts);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('deals')
+        .update(merge.row)
+        .eq('id', incoming.id)
+        .eq('revision', existing.revision)
+        .select('id, revision');
+
+      if (error) {
+        rejected.push({ id: incoming.id, reason: error.message });
+      } else if (!data || data.length === 0) {
+        // Another write landed since we read the row; merge again on top of it
+        changed.push(incoming);
+      } else {
+        revisions[incoming.id] = data[0].revision;
+        conflicts.push(...merge.conflicts);
+      }
+    }));
+
+    if (wholeRows.length > 0) {
+      const { stored, failed } = await upsertRows('deals', wholeRows, false);
+      for (const row of stored) {
+        revisions[row.id] = row.revision;
+      }
+      rejected.push(...failed);
+    }
+
+    pending = changed;
+  }
+
+  return { revisions, conflicts, rejected, deferred: pending.map(d => d.id) };
 }
 
-async function insertNotes(notes: Note[]): Promise<void> {
-  // Insert with ignore duplicates (notes are append-only)
+async function upsertNotes(notes: Note[]): Promise<RejectedItem[]> {
+  const rows = notes.map(n => ({
+    id: n.id,
+    deal_id: n.deal_id,
+    content: n.content,
+    sentiment_score: n.sentiment_score,
+    sentiment_label: n.sentiment_label,
+    sentiment_source: n.sentiment_source ?? (n.sentiment_label ? 'model' : null),
+    sentiment_confidence: n.sentiment_confidence ?? null,
+    sentiment_model: n.sentiment_model ?? null,
+    sentiment_model_version: n.sentiment_model_version ?? null,
+    sentiment_aspects: n.sentiment_aspects ?? null,
+    created_at: n.created_at
+  }));
+
+  // Content never changes, but a device may re-upload a note once its offline
+  // sentiment backfill has run. Unscored copies only insert, so they can't
+  // wipe out a score that's already stored.
+  const scored = rows.filter(r => r.sentiment_label !== null);
+  const unscored = rows.filter(r => r.sentiment_label === null);
+
+  const [scoredResult, unscoredResult] = await Promise.all([
+    scored.length > 0 ? upsertRows('notes', scored, false) : { failed: [] },
+    unscored.length > 0 ? upsertRows('notes', unscored, true) : { failed: [] }
+  ]);
+
+  return [...scoredResult.failed, ...unscoredResult.failed];
+}
+
+// Feedback is append-only. Falls back to row-by-row inserts so one bad row
+// doesn't reject the batch.
+async function insertFeedback(feedback: SentimentFeedback[]): Promise<RejectedItem[]> {
+  const rows = feedback.map(f => ({
+    id: f.id,
+    note_id: f.note_id,
+    original_label: f.original_label,
+    original_score: f.original_score,
+    original_source: f.original_source,
+    original_model: f.original_model,
+    original_model_version: f.original_model_version,
+    corrected_label: f.corrected_label,
+    created_at: f.created_at
+  }));
+
+  // Retries of an already-stored correction are no-ops
   const { error } = await supabase
-    .from('notes')
-    .upsert(
-      notes.map(n => ({
-        id: n.id,
-        deal_id: n.deal_id,
-        content: n.content,
-        sentiment_score: n.sentiment_score,
-        sentiment_label: n.sentiment_label,
-        created_at: n.created_at
-      })),
-      {
-        onConflict: 'id',
-        ignoreDuplicates: true
-      }
+    .from('sentiment_feedback')
+    .upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (!error) return [];
+
+  // Usually a correction for a note that has since been deleted
+  console.warn('Feedback insert failed, retrying per row:', error.message);
+  const results = await Promise.all(
+    rows.map(row => supabase.from('sentiment_feedback').upsert(row, { onConflict: 'id', ignoreDuplicates: true }))
+  );
+  return results.flatMap((result, i) => (result.error ? [{ id: rows[i].id, reason: result.error.message }] : []));
+}
+
+// Writes the whole batch in one call. If the database refuses it (constraint
+// or foreign key errors), retries row by row to find the offending rows.
+async function upsertRows(
+  table: 'deals' | 'notes',
+  rows: Record<string, unknown>[],
+  ignoreDuplicates: boolean
+): Promise<{ stored: { id: string; revision: number }[]; failed: RejectedItem[] }> {
+  const options = { onConflict: 'id', ignoreDuplicates };
+
+  const batch = await supabase.from(table).upsert(rows, options).select('id, revision');
+  if (!batch.error) {
+    return { stored: batch.data || [], failed: [] };
+  }
+
+  console.warn(`Batch upsert into ${table} failed, retrying per row:`, batch.error.message);
+
+  const results = await Promise.all(
+    rows.map(row => supabase.from(table).upsert(row, options).select('id, revision'))
+  );
+
+  const stored: { id: string; revision: number }[] = [];
+  const failed: RejectedItem[] = [];
+
+  results.forEach((result, i) => {
+    if (result.error) {
+      failed.push({ id: rows[i].id as string, reason: result.error.message });
+    } else {
+      stored.push(...(result.data || []));
+    }
+  });
+
+  return { stored, failed };
+}
+
+async function getTombstonesFor(dealIds: string[], noteIds: string[]): Promise<Tombstone[]> {
+  const queries = [];
+
+  if (dealIds.length > 0) {
+    queries.push(
+      supabase
+        .from('tombstones')
+        .select('*')
+        .eq('entity_type', 'deal')
+        .in('entity_id', [...new Set(dealIds)])
+    );
+  }
+  if (noteIds.length > 0) {
+    queries.push(
+      supabase
+        .from('tombstones')
+        .select('*')
+        .eq('entity_type', 'note')
+        .in('entity_id', noteIds)
     );
+  }
 
-  if (error) throw error;
+  const results = await Promise.all(queries);
+  const tombstones: Tombstone[] = [];
+  for (const { data, error } of results) {
+    if (error) throw error;
+    tombstones.push(...(data || []));
+  }
+  return tombstones;
 }
 
-async function getUpdatesSince(lastSync: string | null): Promise<{
-  deals: Deal[];
-  notes: Note[];
+// Rows are ordered by the server-maintained revision sequence rather than
+// client-set timestamps, so skewed device clocks can't hide changes.
+async function getUpdatesSince(cursor: string | null): Promise<{
+  updates: { deals: Deal[]; notes: Note[]; tombstones: Tombstone[] };
+  cursor: string | null;
+  hasMore: boolean;
 }> {
-  let dealsQuery = supabase.from('deals').select('*');
-  let notesQuery = supabase.from('notes').select('*');
+  const since = decodeCursor(cursor);
 
-  if (lastSync) {
-    // Get items updated/created after lastSync
-    dealsQuery = dealsQuery.gt('updated_at', lastSync);
-    notesQuery = notesQuery.gt('created_at', lastSync);
-  }
+  // Revisions are taken when a write starts, so a higher one can commit first.
+  // Stopping below the oldest write still in flight means the cursor never
+  // skips a row that commits later (see sync_safe_revision).
+  const { data: safeRevision, error: safeError } = await supabase.rpc('sync_safe_revision');
+  if (safeError) throw safeError;
+  const upToRevision = Number(safeRevision) || 0;
 
-  const [dealsResult, notesResult] = await Promise.all([
-    dealsQuery.order('updated_at', { ascending: true }),
-    notesQuery.order('created_at', { ascending: true })
-  ]);
+  const [dealsResult, notesResult, tombstonesResult] = await Promise.all(
+    ['deals', 'notes', 'tombstones'].map(table =>
+      supabase
+        .from(table)
+        .select('*')
+        .gt('revision', since)
+        .lte('revision', upToRevision)
+        .order('revision', { ascending: true })
+        .limit(PAGE_SIZE)
+    )
+  );
+
+  if (dealsResult.error) throw dealsResult.error;
+  if (notesResult.error) throw notesResult.error;
+  if (tombstonesResult.error) throw tombstonesResult.error;
+
+  const pages: { revision?: number }[][] = [
+    dealsResult.data || [],
+    notesResult.data || [],
+    tombstonesResult.data || []
+  ];
+
+  // All tables share one sequence. If any page is full, stop at the lowest
+  // full page end so nothing in between gets skipped.
+  const fullPageEnds = pages
+    .filter(rows => rows.length === PAGE_SIZE)
+    .map(rows => rows[rows.length - 1].revision ?? since);
+
+  const next = fullPageEnds.length > 0
+    ? Math.min(...fullPageEnds)
+    : Math.max(since, ...pages.map(rows => rows[rows.length - 1]?.revision ?? since));
+
+  const upTo = <T extends { revision?: number }>(rows: T[]) =>
+    rows.filter(row => (row.revision ?? 0) <= next);
 
   return {
-    deals: dealsResult.data || [],
-    notes: notesResult.data || []
+    updates: {
+      deals: upTo<Deal>(dealsResult.data || []),
+      notes: upTo<Note>(notesResult.data || []),
+      tombstones: upTo<Tombstone>(tombstonesResult.data || [])
+    },
+    cursor: encodeCursor(next),
+    hasMore: fullPageEnds.length > 0
   };
 }
-
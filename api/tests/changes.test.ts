@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// No database: the memory change feed, which wakes the stream as soon as a
+// write is published rather than after the poll interval, and a stand-in for
+// PostgREST where every query and write succeeds with no rows
+process.env.CHANGE_FEED = 'memory';
+process.env.SUPABASE_URL = 'http://supabase.test';
+process.env.SUPABASE_ANON_KEY = 'test-key';
+globalThis.fetch = async () =>
+  new Response('[]', { status: 200, headers: { 'Content-Type': 'application/json' } });
+// supabase-js wants a WebSocket at construction (Node 20 has none); realtime
+// is never used here
+globalThis.WebSocket ??= class {} as unknown as typeof WebSocket;
+
+// Reads the stream until an event containing `marker` arrives
+async function readUntil(reader: ReadableStreamDefaultReader<string>, marker: string): Promise<string> {
+  let received = '';
+  while (!received.includes(marker)) {
+    const { value, done } = await reader.read();
+    if (done) throw new Error(`Stream ended before "${marker}"`);
+    received += value;
+  }
+  return received;
+}
+
+test('a write accepted by /api/sync reaches an /api/changes subscriber', async () => {
+  // Imported here so the environment above is set first
+  const { default: changes } = await import('../changes');
+  const { default: sync } = await import('../sync');
+
+  const abort = new AbortController();
+  const stream = await changes(new Request('http://localhost/api/changes', { signal: abort.signal }));
+  const reader = stream.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+  // The subscriber has checked the feed once and seen nothing new
+  await readUntil(reader, ': keep-alive');
+
+  const response = await sync(new Request('http://localhost/api/sync', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      cursor: null,
+      changes: {
+        deals: [],
+        notes: [{
+          id: '00000000-0000-4000-8000-000000000001',
+          deal_id: '00000000-0000-4000-8000-000000000002',
+          content: 'Call went well',
+          sentiment_score: null,
+          sentiment_label: null,
+          created_at: new Date().toISOString()
+        }]
+      }
+    })
+  }));
+  const body = await response.json();
+  assert.equal(response.status, 200);
+  assert.deepEqual(body.accepted.notes, ['00000000-0000-4000-8000-000000000001']);
+
+  const event = await readUntil(reader, 'event: change');
+  assert.match(event, /event: change\ndata: \{"cursor":"1"\}/);
+
+  // Let the stream close on its own
+  abort.abort();
+  while (!(await reader.read()).done);
+});
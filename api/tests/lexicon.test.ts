@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeLexicon } from '../../shared/lexicon';
+import { LEXICON_CORPUS } from '../../shared/lexicon-corpus';
+import { analyzeSentimentLocally } from '../../frontend/hackathon-sales-intelligence/src/lib/sentiment/lexicon';
+
+// The server calls the shared analyzer directly and the client through its
+// offline wrapper; both have to agree with the corpus
+const analyzers = {
+  server: (text: string) => analyzeLexicon(text),
+  client: (text: string) => analyzeSentimentLocally(text)
+};
+
+for (const [side, analyze] of Object.entries(analyzers)) {
+  test(`${side} lexicon matches the labelled corpus`, () => {
+    const mismatches = LEXICON_CORPUS.flatMap(({ text, label, aspects }) => {
+      const result = analyze(text);
+      const expected = { label, aspects: aspects ?? result.aspects };
+      const actual = { label: result.label, aspects: result.aspects };
+      return JSON.stringify(actual) === JSON.stringify(expected) ? [] : [{ text, expected, actual }];
+    });
+    assert.deepEqual(mismatches, []);
+  });
+}
+
+test('server and client lexicons score the corpus identically', () => {
+  for (const { text } of LEXICON_CORPUS) {
+    const server = analyzeLexicon(text);
+    const client = analyzeSentimentLocally(text);
+    assert.deepEqual(
+      { score: client.score, label: client.label, confidence: client.confidence, aspects: client.aspects },
+      { score: server.score, label: server.label, confidence: server.confidence, aspects: server.aspects },
+      text
+    );
+  }
+});
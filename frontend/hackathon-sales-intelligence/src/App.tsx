@@ -4,6 +4,9 @@ import { Dashboard } from './components/Dashboard'
 import { DealDetail } from './components/DealDetail'
 import { BottomNav, type Tab } from './components/BottomNav'
 import { SyncStatus } from './components/SyncStatus'
+import { ConflictInbox } from './components/ConflictInbox'
+import { SyncRejections } from './components/SyncRejections'
+import { PendingChanges } from './components/PendingChanges'
 import { useSync } from './hooks/useSync'
 import type { Deal } from './lib/db'
 
@@ -25,6 +28,12 @@ function App() {
     setRefreshKey(k => k + 1)
   }, [])
 
+  // Resolved values go out on the next sync, so push them right away
+  const handleConflictResolved = useCallback(() => {
+    setRefreshKey(k => k + 1)
+    syncNow()
+  }, [syncNow])
+
   // Show deal detail view
   if (selectedDeal) {
     return (
@@ -52,13 +61,17 @@ function App() {
         error={error}
         onRetry={syncNow}
       />
+      <ConflictInbox refreshKey={lastSyncTime} onResolved={handleConflictResolved} />
+      <SyncRejections refreshKey={lastSyncTime} onRetry={syncNow} />
+      <PendingChanges onDiscarded={handleDealUpdated} />
       {activeTab === 'deals' ? (
         <DealList
           key={refreshKey}
           onDealSelect={handleDealSelect}
+          refreshKey={lastSyncTime}
         />
       ) : (
-        <Dashboard key={refreshKey} />
+        <Dashboard key={refreshKey} refreshKey={lastSyncTime} />
       )}
       <BottomNav activeTab={activeTab} onTabChange={setActiveTab} />
     </>
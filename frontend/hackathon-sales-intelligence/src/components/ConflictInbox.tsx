@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { db, getConflicts, resolveConflict, type DealConflict } from '../lib/db';
+import { DEAL_FIELD_LABELS, formatDealFieldValue } from '../lib/utils/format';
+import { useToast } from './Toast';
+
+interface ConflictWithDeal {
+  conflict: DealConflict;
+  dealName: string;
+}
+
+async function fetchConflicts(): Promise<ConflictWithDeal[]> {
+  const conflicts = await getConflicts();
+  return Promise.all(
+    conflicts.map(async (conflict) => {
+      const deal = await db.deals.get(conflict.deal_id);
+      return { conflict, dealName: deal?.name ?? 'Deleted deal' };
+    })
+  );
+}
+
+interface ConflictInboxProps {
+  refreshKey: unknown;
+  onResolved: () => void;
+}
+
+export function ConflictInbox({ refreshKey, onResolved }: ConflictInboxProps) {
+  const [conflicts, setConflicts] = useState<ConflictWithDeal[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchConflicts()
+      .then(result => {
+        if (!cancelled) setConflicts(result);
+      })
+      .catch(error => console.error('Failed to load conflicts:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const handleResolve = async (conflict: DealConflict, keep: 'local' | 'server') => {
+    try {
+      await resolveConflict(conflict.id, keep);
+      if (navigator.vibrate) navigator.vibrate(10);
+      showToast(keep === 'local' ? 'Kept your change' : 'Kept the other change');
+      setConflicts(await fetchConflicts());
+      onResolved();
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      showToast('Failed to resolve conflict', 'error');
+    }
+  };
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full px-4 py-2 bg-amber-50 border-b border-amber-200 text-amber-800 text-sm font-medium flex items-center justify-between"
+      >
+        <span>
+          {conflicts.length} edit{conflicts.length !== 1 ? 's' : ''} conflicted with another device
+        </span>
+        <span className="underline">Review</span>
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50" onClick={() => setIsOpen(false)}>
+          <div
+            className="bg-white rounded-t-2xl w-full max-w-md p-4 pb-8 max-h-[80vh] overflow-y-auto"
+            style={{ paddingBottom: 'max(2rem, env(safe-area-inset-bottom))' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="w-12 h-1 bg-gray-300 rounded-full mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 text-center mb-1">Conflicting edits</h2>
+            <p className="text-sm text-gray-500 text-center mb-4">
+              These fields were changed here and on another device. Pick the value to keep.
+            </p>
+
+            <div className="space-y-3">
+              {conflicts.map(({ conflict, dealName }) => (
+                <div key={conflict.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="font-medium text-gray-900 truncate">{dealName}</div>
+                  <div className="text-xs text-gray-500 uppercase tracking-wide mb-2">
+                    {DEAL_FIELD_LABELS[conflict.field]}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => handleResolve(conflict, 'local')}
+                      className="py-2 px-3 rounded-lg bg-blue-50 text-blue-700 active:bg-blue-100 text-left"
+                    >
+                      <div className="text-xs text-blue-500">Yours</div>
+                      <div className="font-medium truncate">{formatDealFieldValue(conflict.field, conflict.local_value)}</div>
+                    </button>
+                    <button
+                      onClick={() => handleResolve(conflict, 'server')}
+                      className="py-2 px-3 rounded-lg bg-gray-100 text-gray-700 active:bg-gray-200 text-left"
+                    >
+                      <div className="text-xs text-gray-500">Other device</div>
+                      <div className="font-medium truncate">{formatDealFieldValue(conflict.field, conflict.server_value)}</div>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={() => setIsOpen(false)}
+              className="w-full mt-4 py-3 text-gray-500 font-medium"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
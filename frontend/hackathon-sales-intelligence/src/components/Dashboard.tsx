@@ -3,6 +3,7 @@ import {
   getOpenDeals,
   getLatestNoteByDeal,
   getLossStats,
+  getAspectRiskStats,
   getWinStats,
   getTotalStats,
   getWinLossRatio,
@@ -13,6 +14,8 @@ import {
   type Deal,
   type Note,
   type LossStats,
+  type AspectRiskStats,
+  type SentimentAspect,
   type WinStats,
   type TotalStats,
   type WinLossRatio,
@@ -25,6 +28,7 @@ import { AtRiskCard } from './AtRiskCard';
 import { EmptyState } from './EmptyState';
 import { DashboardSkeleton } from './Skeleton';
 import { DonutChart } from './DonutChart';
+import { LossThemes } from './LossThemes';
 import { SyncStatusBar } from './SyncStatusBar';
 import { useSync } from '../hooks/useSync';
 import { useToast } from './Toast';
@@ -42,6 +46,13 @@ const REASON_LABELS: Record<string, string> = {
   other: 'Other'
 };
 
+const ASPECT_LABELS: Record<SentimentAspect, string> = {
+  price: 'price',
+  timing: 'timing',
+  competitor: 'competitor',
+  fit: 'fit'
+};
+
 // Helper to format close date
 function formatCloseDate(date: Date | string | null): { text: string; color: string; urgent: boolean } | null {
   if (!date) return null;
@@ -66,17 +77,23 @@ function formatCloseDate(date: Date | string | null): { text: string; color: str
   }
 }
 
-export function Dashboard() {
+interface DashboardProps {
+  // Changes whenever another device's edits land locally
+  refreshKey?: unknown;
+}
+
+export function Dashboard({ refreshKey }: DashboardProps) {
   const [atRiskDeals, setAtRiskDeals] = useState<AtRiskDeal[]>([]);
   const [closingSoonDeals, setClosingSoonDeals] = useState<Deal[]>([]);
   const [stageStats, setStageStats] = useState<StageStats | null>(null);
   const [totalStats, setTotalStats] = useState<TotalStats | null>(null);
   const [pipelineStats, setPipelineStats] = useState<PipelineStats | null>(null);
   const [lossStats, setLossStats] = useState<LossStats | null>(null);
+  const [aspectRiskStats, setAspectRiskStats] = useState<AspectRiskStats | null>(null);
   const [winStats, setWinStats] = useState<WinStats | null>(null);
   const [winLossRatio, setWinLossRatio] = useState<WinLossRatio | null>(null);
   const [loading, setLoading] = useState(true);
-  const { isSyncing, lastSyncTime, error: syncError, syncNow } = useSync();
+  const { isSyncing, lastSyncTime, error: syncError, attempt, nextRetryAt, syncNow } = useSync();
   const { showToast } = useToast();
 
   const loadDashboardData = useCallback(async () => {
@@ -97,6 +114,7 @@ export function Dashboard() {
       setTotalStats(await getTotalStats());
       setPipelineStats(await getPipelineStats());
       setLossStats(await getLossStats());
+      setAspectRiskStats(await getAspectRiskStats());
       setWinStats(await getWinStats());
       setWinLossRatio(await getWinLossRatio());
     } catch (error) {
@@ -108,7 +126,7 @@ export function Dashboard() {
 
   useEffect(() => {
     loadDashboardData();
-  }, [loadDashboardData]);
+  }, [loadDashboardData, refreshKey]);
 
   const handleSync = async () => {
     try {
@@ -132,6 +150,8 @@ export function Dashboard() {
             isSyncing={isSyncing}
             lastSyncTime={lastSyncTime}
             error={syncError}
+            attempt={attempt}
+            nextRetryAt={nextRetryAt}
             onSync={handleSync}
           />
         </header>
@@ -154,6 +174,8 @@ export function Dashboard() {
           isSyncing={isSyncing}
           lastSyncTime={lastSyncTime}
           error={syncError}
+          attempt={attempt}
+          nextRetryAt={nextRetryAt}
           onSync={handleSync}
         />
       </header>
@@ -217,6 +239,28 @@ export function Dashboard() {
           )}
         </section>
 
+        {/* Early warnings, by the loss reason they point to */}
+        {aspectRiskStats && Object.values(aspectRiskStats.byAspect).some(a => a.count > 0) && (
+          <section className="mb-6">
+            <h2 className="text-gray-700 font-semibold mb-3">Warning Signals</h2>
+            <div className="bg-white p-4 rounded-lg shadow-sm space-y-2">
+              {(Object.keys(aspectRiskStats.byAspect) as SentimentAspect[])
+                .filter(aspect => aspectRiskStats.byAspect[aspect].count > 0)
+                .map(aspect => {
+                  const { count, value } = aspectRiskStats.byAspect[aspect];
+                  return (
+                    <div key={aspect} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700">
+                        <span className="font-semibold text-red-700">{count}</span> open deal{count !== 1 ? 's have' : ' has'} negative {ASPECT_LABELS[aspect]} signals
+                      </span>
+                      <span className="text-gray-500">{formatCurrency(value)}</span>
+                    </div>
+                  );
+                })}
+            </div>
+          </section>
+        )}
+
         {/* Stage Breakdown */}
         {stageStats && (
           <section className="mb-6">
@@ -403,6 +447,9 @@ export function Dashboard() {
           </div>
         </section>
 
+        {/* Recurring themes in lost deals' notes */}
+        {lossStats && lossStats.totalLost > 0 && <LossThemes refreshKey={refreshKey} />}
+
         {/* Win/Loss Ratio */}
         {winLossRatio && (winLossRatio.won > 0 || winLossRatio.lost > 0) && (
           <section className="text-center text-sm text-gray-500 py-4 border-t border-gray-200">
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { getDealBrief, saveDealBrief, getNotesByDeal, briefCoverage, type CachedDealBrief, type Deal } from '../lib/db';
+import { generateDealBrief } from '../lib/api/brief';
+import { formatRelativeTime } from '../lib/utils/format';
+import { useToast } from './Toast';
+
+interface DealBriefPanelProps {
+  deal: Deal;
+  onClose: () => void;
+}
+
+async function generateAndCache(deal: Deal): Promise<CachedDealBrief> {
+  const notes = await getNotesByDeal(deal.id);
+  const result = await generateDealBrief(deal, notes);
+  const entry: CachedDealBrief = {
+    deal_id: deal.id,
+    brief: result.brief,
+    source: result.source,
+    model: result.model,
+    ...briefCoverage(notes),
+    generated_at: new Date()
+  };
+  await saveDealBrief(entry);
+  return entry;
+}
+
+async function loadBrief(deal: Deal): Promise<CachedDealBrief> {
+  return (await getDealBrief(deal.id)) ?? generateAndCache(deal);
+}
+
+// Mounted when opened, so each opening checks the cache afresh
+export function DealBriefPanel({ deal, onClose }: DealBriefPanelProps) {
+  const [entry, setEntry] = useState<CachedDealBrief | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBrief(deal)
+      .then(result => {
+        if (!cancelled) setEntry(result);
+      })
+      .catch(error => {
+        console.error('Failed to load deal brief:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [deal]);
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    try {
+      setEntry(await generateAndCache(deal));
+      setFailed(false);
+    } catch (error) {
+      console.error('Failed to regenerate deal brief:', error);
+      showToast('Summary needs a connection', 'error');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const brief = entry?.brief;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-t-2xl w-full max-w-md p-4 pb-8 max-h-[80vh] overflow-y-auto"
+        style={{ paddingBottom: 'max(2rem, env(safe-area-inset-bottom))' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-12 h-1 bg-gray-300 rounded-full mx-auto mb-4" />
+        <h2 className="text-lg font-semibold text-gray-900 text-center mb-1">Deal brief</h2>
+        <p className="text-sm text-gray-500 text-center mb-4 truncate">{deal.name}</p>
+
+        {!brief && !failed && (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 text-sm">
+            <svg className="animate-spin h-5 w-5 text-blue-600" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+            </svg>
+            Summarizing notes...
+          </div>
+        )}
+
+        {!brief && failed && (
+          <p className="text-sm text-gray-500 text-center py-6">
+            Couldn't generate a summary. Check your connection and try again.
+          </p>
+        )}
+
+        {brief && entry && (
+          <div className="space-y-4 text-sm">
+            <section>
+              <h3 className="text-xs text-gray-500 uppercase tracking-wide mb-1">Where it stands</h3>
+              <p className="text-gray-800">{brief.standing}</p>
+            </section>
+            <section>
+              <h3 className="text-xs text-gray-500 uppercase tracking-wide mb-1">Sentiment</h3>
+              <p className="text-gray-800">{brief.sentiment_trend}</p>
+            </section>
+            <section>
+              <h3 className="text-xs text-gray-500 uppercase tracking-wide mb-1">Open objections</h3>
+              {brief.objections.length === 0 ? (
+                <p className="text-gray-500">None raised</p>
+              ) : (
+                <ul className="list-disc pl-5 space-y-1 text-gray-800">
+                  {brief.objections.map((objection, i) => (
+                    <li key={i}>{objection}</li>
+                  ))}
+                </ul>
+              )}
+            </section>
+            <section>
+              <h3 className="text-xs text-gray-500 uppercase tracking-wide mb-1">Suggested next step</h3>
+              <p className="text-gray-800 font-medium">{brief.next_step}</p>
+            </section>
+            <p className="text-xs text-gray-400">
+              Generated {formatRelativeTime(entry.generated_at)}
+              {entry.source === 'fallback' && ' · from templates (AI model unavailable)'}
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 mt-4">
+          <button
+            onClick={handleRegenerate}
+            disabled={isRegenerating || (!brief && !failed)}
+            className="py-3 rounded-lg bg-blue-50 text-blue-700 active:bg-blue-100 font-medium disabled:opacity-50"
+          >
+            {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+          </button>
+          <button
+            onClick={onClose}
+            className="py-3 text-gray-500 font-medium"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
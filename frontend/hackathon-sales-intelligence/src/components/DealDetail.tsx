@@ -1,9 +1,13 @@
 import { useState, useEffect } from 'react';
 import type { Deal, Note, DealStage } from '../lib/db';
 import { getNotesByDeal, addNote, updateDeal, archiveDeal, STAGE_INFO } from '../lib/db';
-import { analyzeSentiment } from '../lib/api/sentiment';
+import { analyzeSentiment, toNoteSentiment, MAX_NOTE_LENGTH } from '../lib/api/sentiment';
+import { extractEntities, type NoteEntities } from '../lib/api/extract';
+import { analyzeSentimentLocally } from '../lib/sentiment/lexicon';
 import { formatCurrency } from '../lib/utils/format';
 import { NoteItem } from './NoteItem';
+import { NoteSuggestions } from './NoteSuggestions';
+import { DealBriefPanel } from './DealBriefPanel';
 import { LossReasonModal } from './LossReasonModal';
 import { EditDealModal } from './EditDealModal';
 import { useToast } from './Toast';
@@ -43,6 +47,8 @@ export function DealDetail({ deal, onBack, onDealUpdated }: DealDetailProps) {
   const [showLossModal, setShowLossModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [currentDeal, setCurrentDeal] = useState(deal);
+  const [extracted, setExtracted] = useState<NoteEntities | null>(null);
+  const [showBrief, setShowBrief] = useState(false);
   const { showToast } = useToast();
 
   useEffect(() => {
@@ -71,24 +77,27 @@ export function DealDetail({ deal, onBack, onDealUpdated }: DealDetailProps) {
 
     try {
       const sentiment = await analyzeSentiment(newNoteText.trim());
-      const note = await addNote(
-        deal.id,
-        newNoteText.trim(),
-        sentiment.score,
-        sentiment.label
-      );
+      const note = await addNote(deal.id, newNoteText.trim(), toNoteSentiment(sentiment));
       setNotes([note, ...notes]);
       setNewNoteText('');
       if (navigator.vibrate) navigator.vibrate(10);
       showToast('Note added');
       onDealUpdated();
+
+      // Offered after the fact; the note is saved whether or not this works
+      setExtracted(null);
+      extractEntities(note.content)
+        .then(result => setExtracted(result.entities))
+        .catch(error => console.error('Failed to extract from note:', error));
     } catch (error) {
       console.error('Failed to add note with sentiment:', error);
       try {
-        const note = await addNote(deal.id, newNoteText.trim(), null, null);
+        // Provisional on-device score; the backfill queue swaps in the server's
+        const local = analyzeSentimentLocally(newNoteText.trim());
+        const note = await addNote(deal.id, newNoteText.trim(), toNoteSentiment(local));
         setNotes([note, ...notes]);
         setNewNoteText('');
-        showToast('Note added (sentiment unavailable)', 'info');
+        showToast('Note added (sentiment estimated offline)', 'info');
         onDealUpdated();
       } catch (innerError) {
         console.error('Failed to add note:', innerError);
@@ -126,6 +135,19 @@ export function DealDetail({ deal, onBack, onDealUpdated }: DealDetailProps) {
     onBack();
   };
 
+  const handleApplySuggestion = async (updates: Partial<Deal>) => {
+    try {
+      await updateDeal(deal.id, updates);
+      setCurrentDeal({ ...currentDeal, ...updates });
+      if (navigator.vibrate) navigator.vibrate(10);
+      showToast('Deal updated from note');
+      onDealUpdated();
+    } catch (error) {
+      console.error('Failed to apply suggestion:', error);
+      showToast('Failed to update deal', 'error');
+    }
+  };
+
   const handleStageChange = async (newStage: DealStage) => {
     await updateDeal(deal.id, { stage: newStage });
     setCurrentDeal({ ...currentDeal, stage: newStage });
@@ -257,18 +279,34 @@ export function DealDetail({ deal, onBack, onDealUpdated }: DealDetailProps) {
 
       {/* Notes Section */}
       <div className="flex-1 flex flex-col min-h-0">
-        <div className="px-4 py-3 bg-gray-50 border-b border-gray-200">
+        <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
           <h2 className="font-semibold text-gray-700">Notes ({notes.length})</h2>
+          {notes.length > 0 && (
+            <button
+              onClick={() => setShowBrief(true)}
+              className="px-3 py-1 text-sm text-blue-600 font-medium rounded-lg active:bg-blue-50"
+            >
+              Summarize
+            </button>
+          )}
         </div>
 
         <div className="flex-1 overflow-y-auto">
+          {extracted && currentDeal.status === 'open' && (
+            <NoteSuggestions
+              deal={currentDeal}
+              entities={extracted}
+              onApply={handleApplySuggestion}
+              onDismiss={() => setExtracted(null)}
+            />
+          )}
           {notes.length === 0 ? (
             <div className="flex items-center justify-center h-32 text-gray-400">
               No notes yet
             </div>
           ) : (
             notes.map((note) => (
-              <NoteItem key={note.id} note={note} />
+              <NoteItem key={note.id} note={note} onSentimentChanged={loadNotes} />
             ))
           )}
         </div>
@@ -285,6 +323,7 @@ export function DealDetail({ deal, onBack, onDealUpdated }: DealDetailProps) {
               value={newNoteText}
               onChange={(e) => setNewNoteText(e.target.value)}
               placeholder="Add a note..."
+              maxLength={MAX_NOTE_LENGTH}
               className="flex-1 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
               disabled={isAnalyzing}
             />
@@ -333,6 +372,10 @@ export function DealDetail({ deal, onBack, onDealUpdated }: DealDetailProps) {
       )}
 
       {/* Modals */}
+      {showBrief && (
+        <DealBriefPanel deal={currentDeal} onClose={() => setShowBrief(false)} />
+      )}
+
       {showLossModal && (
         <LossReasonModal
           dealId={deal.id}
@@ -48,9 +48,11 @@ function vibrate(pattern: number | number[] = 10) {
 
 interface DealListProps {
   onDealSelect?: (deal: Deal) => void;
+  // Changes whenever another device's edits land locally
+  refreshKey?: unknown;
 }
 
-export function DealList({ onDealSelect }: DealListProps) {
+export function DealList({ onDealSelect, refreshKey }: DealListProps) {
   const [deals, setDeals] = useState<DealWithSentiment[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
@@ -88,7 +90,7 @@ export function DealList({ onDealSelect }: DealListProps) {
 
   useEffect(() => {
     loadDeals();
-  }, [loadDeals]);
+  }, [loadDeals, refreshKey]);
 
   // Filter by stage
   const filteredDeals = stageFilter === 'all'
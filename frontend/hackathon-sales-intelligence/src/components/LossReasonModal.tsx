@@ -1,4 +1,7 @@
-import { updateDeal } from '../lib/db';
+import { useState, useEffect } from 'react';
+import { updateDeal, getNotesByDeal } from '../lib/db';
+import { suggestLossReason, type LossReasonSuggestion } from '../lib/api/lossReason';
+import { suggestLossReasonLocally } from '../lib/sentiment/lossReason';
 import { useToast } from './Toast';
 
 const LOSS_REASONS = [
@@ -11,6 +14,22 @@ const LOSS_REASONS = [
 
 type LossReason = typeof LOSS_REASONS[number]['id'];
 
+// The server sees at most this many of the latest notes
+const MAX_NOTES = 50;
+
+// Falls back to the on-device keyword rules when the API can't be reached
+async function loadSuggestion(dealId: string): Promise<LossReasonSuggestion | null> {
+  const notes = (await getNotesByDeal(dealId)).reverse().slice(0, MAX_NOTES);
+  if (notes.length === 0) return null;
+
+  try {
+    return (await suggestLossReason(notes.map(n => n.content))).suggestion;
+  } catch (error) {
+    console.error('Failed to get loss reason suggestion, using local rules:', error);
+    return suggestLossReasonLocally(notes).suggestion;
+  }
+}
+
 interface LossReasonModalProps {
   dealId: string;
   dealName: string;
@@ -20,14 +39,49 @@ interface LossReasonModalProps {
 }
 
 export function LossReasonModal({ dealId, dealName, isOpen, onClose, onComplete }: LossReasonModalProps) {
+  // Keyed by deal so a suggestion for another deal is never shown
+  const [loaded, setLoaded] = useState<{ dealId: string; suggestion: LossReasonSuggestion | null } | null>(null);
+  // The rep's pick, when it differs from the pre-selected suggestion
+  const [picked, setPicked] = useState<{ dealId: string; reason: LossReason } | null>(null);
   const { showToast } = useToast();
 
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    loadSuggestion(dealId)
+      .then(suggestion => {
+        if (!cancelled) setLoaded({ dealId, suggestion });
+      })
+      .catch(error => {
+        console.error('Failed to suggest loss reason:', error);
+        if (!cancelled) setLoaded({ dealId, suggestion: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, dealId]);
+
   if (!isOpen) return null;
 
-  const handleSelectReason = async (reason: LossReason) => {
+  // Choosing waits for the suggestion to settle, so a saved null always means
+  // "nothing to suggest" rather than "not loaded yet"
+  const isSuggesting = loaded?.dealId !== dealId;
+  const suggestion = isSuggesting ? null : loaded.suggestion;
+  const selected = picked?.dealId === dealId ? picked.reason : suggestion?.reason ?? null;
+
+  const reasonClasses = (reason: LossReason) =>
+    reason === selected
+      ? 'bg-blue-50 ring-2 ring-blue-500 text-blue-800 active:bg-blue-100'
+      : 'bg-gray-100 hover:bg-gray-200 active:bg-gray-300 text-gray-700';
+
+  // Saving the suggestion alongside the choice shows whether the rep accepted it
+  const handleConfirm = async () => {
+    if (isSuggesting || !selected) return;
     await updateDeal(dealId, {
       status: 'lost',
-      loss_reason: reason
+      loss_reason: selected,
+      suggested_loss_reason: suggestion?.reason ?? null
     });
     if (navigator.vibrate) navigator.vibrate(10);
     showToast(`"${dealName}" marked as lost`);
@@ -46,30 +100,53 @@ export function LossReasonModal({ dealId, dealName, isOpen, onClose, onComplete
         <h2 className="text-lg font-semibold text-gray-900 text-center mb-2">
           Why did you lose this deal?
         </h2>
-        <p className="text-sm text-gray-500 text-center mb-6 truncate">{dealName}</p>
+        <p className={`text-sm text-gray-500 text-center truncate ${suggestion || isSuggesting ? 'mb-3' : 'mb-6'}`}>{dealName}</p>
+
+        {isSuggesting && (
+          <p className="text-sm text-gray-500 text-center mb-4">Finding the likely reason...</p>
+        )}
+
+        {suggestion && (
+          <p className="text-sm text-blue-800 bg-blue-50 rounded-lg px-3 py-2 mb-4">
+            <span className="font-medium">Suggested: {LOSS_REASONS.find(r => r.id === suggestion.reason)?.label}.</span>{' '}
+            {suggestion.justification}
+          </p>
+        )}
 
         <div className="grid grid-cols-2 gap-4">
           {LOSS_REASONS.slice(0, 4).map((reason) => (
             <button
               key={reason.id}
-              onClick={() => handleSelectReason(reason.id)}
-              className="flex flex-col items-center justify-center h-24 rounded-xl bg-gray-100 hover:bg-gray-200 active:bg-gray-300 active:scale-95 transition-all duration-150 text-gray-700 font-medium"
+              onClick={() => setPicked({ dealId, reason: reason.id })}
+              disabled={isSuggesting}
+              className={`flex flex-col items-center justify-center h-24 rounded-xl active:scale-95 transition-all duration-150 font-medium disabled:opacity-50 ${reasonClasses(reason.id)}`}
             >
               <span className="text-sm">{reason.label}</span>
+              {reason.id === suggestion?.reason && <span className="text-xs text-blue-600 mt-1">Suggested</span>}
             </button>
           ))}
 
           <button
-            onClick={() => handleSelectReason('other')}
-            className="col-span-2 flex items-center justify-center h-16 rounded-xl bg-gray-100 hover:bg-gray-200 active:bg-gray-300 active:scale-95 transition-all duration-150 text-gray-700 font-medium"
+            onClick={() => setPicked({ dealId, reason: 'other' })}
+            disabled={isSuggesting}
+            className={`col-span-2 flex items-center justify-center gap-2 h-16 rounded-xl active:scale-95 transition-all duration-150 font-medium disabled:opacity-50 ${reasonClasses('other')}`}
           >
             <span className="text-sm">Other</span>
+            {suggestion?.reason === 'other' && <span className="text-xs text-blue-600">Suggested</span>}
           </button>
         </div>
 
+        <button
+          onClick={handleConfirm}
+          disabled={isSuggesting || !selected}
+          className="w-full mt-4 py-3 rounded-lg bg-red-600 text-white font-medium active:bg-red-700 disabled:opacity-50"
+        >
+          Mark as lost
+        </button>
+
         <button
           onClick={onClose}
-          className="w-full mt-4 py-3 text-gray-500 font-medium"
+          className="w-full mt-2 py-3 text-gray-500 font-medium"
         >
           Cancel
         </button>
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { getLossThemes, type LossThemesFilter, type LossThemesResult } from '../lib/api/lossThemes';
+
+type ReasonFilter = NonNullable<LossThemesFilter['reason']> | 'all';
+
+const REASON_OPTIONS: { value: ReasonFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'price', label: 'Price' },
+  { value: 'timing', label: 'Timing' },
+  { value: 'competitor', label: 'Competitor' },
+  { value: 'fit', label: 'Bad Fit' },
+  { value: 'other', label: 'Other' }
+];
+
+const RANGE_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '12 months' },
+  { days: null, label: 'All time' }
+];
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+type Loaded = { key: string; result: LossThemesResult | null };
+
+interface LossThemesProps {
+  // Changes whenever another device's edits land locally
+  refreshKey?: unknown;
+}
+
+// "Why we lose": recurring themes across lost deals' notes, worked out on the
+// server from synced data
+export function LossThemes({ refreshKey }: LossThemesProps) {
+  const [reason, setReason] = useState<ReasonFilter>('all');
+  const [days, setDays] = useState<number | null>(90);
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+
+  const key = `${reason}:${days ?? 'all'}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    getLossThemes({
+      reason: reason === 'all' ? undefined : reason,
+      from: days === null ? undefined : daysAgo(days)
+    })
+      .then(result => {
+        if (!cancelled) setLoaded({ key, result });
+      })
+      .catch(error => {
+        console.error('Failed to load loss themes:', error);
+        if (!cancelled) setLoaded({ key, result: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, reason, days, refreshKey]);
+
+  // Results for an earlier filter count as still loading
+  const current = loaded?.key === key ? loaded : null;
+  const result = current?.result ?? null;
+
+  return (
+    <section className="mb-6">
+      <h2 className="text-gray-700 font-semibold mb-3">Why We Lose</h2>
+      <div className="bg-white p-4 rounded-lg shadow-sm">
+        <div className="flex gap-2 overflow-x-auto pb-2 mb-2">
+          {REASON_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setReason(option.value)}
+              className={`px-3 py-1 rounded-full text-sm whitespace-nowrap ${
+                reason === option.value ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 active:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2 overflow-x-auto pb-2 mb-3">
+          {RANGE_OPTIONS.map(option => (
+            <button
+              key={option.label}
+              onClick={() => setDays(option.days)}
+              className={`px-3 py-1 rounded-full text-xs whitespace-nowrap ${
+                days === option.days ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-600 active:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {!current && (
+          <p className="text-sm text-gray-500 text-center py-4">Looking for patterns...</p>
+        )}
+
+        {current && !current.result && (
+          <p className="text-sm text-gray-500 text-center py-4">
+            Loss themes need a connection. Check your connection and try again.
+          </p>
+        )}
+
+        {result && result.themes.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">
+            {result.deal_count === 0
+              ? 'No synced lost deals match these filters'
+              : `No recurring themes in ${result.deal_count} lost deal${result.deal_count !== 1 ? 's' : ''}`}
+          </p>
+        )}
+
+        {result && result.themes.length > 0 && (
+          <div className="space-y-4">
+            {result.themes.map(theme => (
+              <div key={theme.theme}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold text-gray-900">{theme.theme}</span>
+                  <span className="text-xs text-red-700 bg-red-50 px-2 py-0.5 rounded-full whitespace-nowrap">
+                    {theme.deal_count} deal{theme.deal_count !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mt-0.5">{theme.summary}</p>
+                {theme.quotes.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {theme.quotes.map((q, i) => (
+                      <li key={i} className="text-xs text-gray-600 border-l-2 border-gray-200 pl-2">
+                        "{q.text}" <span className="text-gray-400">· {q.deal_name}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+            {result.source === 'fallback' && (
+              <p className="text-xs text-gray-400">From keyword rules (AI model unavailable)</p>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
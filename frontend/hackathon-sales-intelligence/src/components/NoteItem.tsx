@@ -1,17 +1,98 @@
-import type { Note } from '../lib/db';
+import { useState } from 'react';
+import { overrideNoteSentiment, type Note } from '../lib/db';
 import { getSentimentColor, formatRelativeTime } from '../lib/utils/format';
+import { useToast } from './Toast';
+
+// Below this a model is mostly guessing
+const LOW_CONFIDENCE = 0.5;
+
+const LABELS: NonNullable<Note['sentiment_label']>[] = ['positive', 'neutral', 'negative'];
 
 interface NoteItemProps {
   note: Note;
+  onSentimentChanged?: () => void;
 }
 
-export function NoteItem({ note }: NoteItemProps) {
+// Why the score shouldn't be taken at face value, if there's a reason
+function getSentimentCaveat(note: Note): { tag: string; title: string } | null {
+  if (!note.sentiment_label) return null;
+
+  switch (note.sentiment_source) {
+    case 'local':
+      return { tag: 'local', title: 'Estimated on this device; will be re-scored when online' };
+    case 'fallback':
+      return { tag: 'fallback', title: 'The AI model was unavailable; scored by keyword matching' };
+    case 'manual':
+      return null;
+  }
+
+  if (note.sentiment_confidence !== null && note.sentiment_confidence !== undefined && note.sentiment_confidence < LOW_CONFIDENCE) {
+    return { tag: 'low confidence', title: `Model confidence ${Math.round(note.sentiment_confidence * 100)}%` };
+  }
+  return null;
+}
+
+export function NoteItem({ note, onSentimentChanged }: NoteItemProps) {
+  const [isPicking, setIsPicking] = useState(false);
+  const { showToast } = useToast();
+  const caveat = getSentimentCaveat(note);
+
+  const handlePick = async (label: NonNullable<Note['sentiment_label']>) => {
+    setIsPicking(false);
+    if (label === note.sentiment_label && note.sentiment_source === 'manual') return;
+
+    try {
+      await overrideNoteSentiment(note.id, label);
+      if (navigator.vibrate) navigator.vibrate(10);
+      showToast(`Sentiment set to ${label}`);
+      onSentimentChanged?.();
+    } catch (error) {
+      console.error('Failed to change sentiment:', error);
+      showToast('Failed to change sentiment', 'error');
+    }
+  };
+
   return (
     <div className="flex items-start gap-3 p-3 border-b border-gray-100">
-      <div className={`w-2.5 h-2.5 rounded-full mt-1.5 flex-shrink-0 ${getSentimentColor(note.sentiment_label)}`} />
+      {/* Tapping the dot lets the rep correct the label; padding keeps the target finger-sized */}
+      <button
+        onClick={() => setIsPicking(!isPicking)}
+        disabled={!onSentimentChanged}
+        className="-m-2 p-2 flex-shrink-0"
+        aria-label="Change sentiment"
+      >
+        <div
+          className={`w-2.5 h-2.5 rounded-full mt-1.5 ${getSentimentColor(note.sentiment_label)} ${
+            caveat ? 'opacity-40' : ''
+          }`}
+        />
+      </button>
       <div className="flex-1 min-w-0">
         <p className="text-gray-700 whitespace-pre-wrap break-words">{note.content}</p>
-        <p className="text-xs text-gray-400 mt-1">{formatRelativeTime(note.created_at)}</p>
+        <p className="text-xs text-gray-400 mt-1">
+          {formatRelativeTime(note.created_at)}
+          {caveat && (
+            <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 text-gray-500" title={caveat.title}>
+              {caveat.tag}
+            </span>
+          )}
+        </p>
+        {isPicking && (
+          <div className="flex gap-2 mt-2">
+            {LABELS.map(label => (
+              <button
+                key={label}
+                onClick={() => handlePick(label)}
+                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs capitalize ${
+                  label === note.sentiment_label ? 'border-gray-400 text-gray-900' : 'border-gray-200 text-gray-600'
+                }`}
+              >
+                <span className={`w-2 h-2 rounded-full ${getSentimentColor(label)}`} />
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
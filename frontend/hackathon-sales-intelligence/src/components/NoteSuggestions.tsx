@@ -0,0 +1,118 @@
+import type { Deal } from '../lib/db';
+import type { NoteEntities } from '../lib/api/extract';
+import { formatCurrency } from '../lib/utils/format';
+
+interface Suggestion {
+  key: string;
+  label: string;
+  updates: Partial<Deal>;
+}
+
+interface NoteSuggestionsProps {
+  deal: Deal;
+  entities: NoteEntities;
+  onApply: (updates: Partial<Deal>) => void;
+  onDismiss: () => void;
+}
+
+// Same date format the edit modal uses
+function toDateInput(date: Date | string | null): string | null {
+  return date ? new Date(date).toISOString().split('T')[0] : null;
+}
+
+// Deal fields the note has a value for, where it differs from the deal. An
+// applied suggestion drops out once the deal is updated. Contacts are people
+// at the customer, not the customer, so they're only shown.
+function buildSuggestions(deal: Deal, entities: NoteEntities): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+
+  for (const { date } of entities.dates.filter(d => d.kind === 'decision')) {
+    if (date === toDateInput(deal.expected_close_date)) continue;
+    suggestions.push({
+      key: `date:${date}`,
+      label: `Set close date to ${new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC' })}`,
+      updates: { expected_close_date: new Date(date) }
+    });
+  }
+
+  for (const amount of entities.budgets) {
+    if (amount === deal.value) continue;
+    suggestions.push({
+      key: `value:${amount}`,
+      label: `Set value to ${formatCurrency(amount)}`,
+      updates: { value: amount }
+    });
+  }
+
+  if (entities.customer && entities.customer !== deal.customer_name) {
+    suggestions.push({
+      key: `customer:${entities.customer}`,
+      label: `Set customer to ${entities.customer}`,
+      updates: { customer_name: entities.customer }
+    });
+  }
+
+  return suggestions;
+}
+
+export function NoteSuggestions({ deal, entities, onApply, onDismiss }: NoteSuggestionsProps) {
+  const suggestions = buildSuggestions(deal, entities);
+  const otherDates = entities.dates.filter(d => d.kind !== 'decision');
+  const hasInfo =
+    entities.contacts.length > 0 ||
+    entities.competitors.length > 0 ||
+    entities.next_steps.length > 0 ||
+    otherDates.length > 0;
+
+  if (suggestions.length === 0 && !hasInfo) return null;
+
+  return (
+    <div className="mx-4 my-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-blue-900">From this note</span>
+        <button onClick={onDismiss} className="text-blue-700 underline">
+          Dismiss
+        </button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {suggestions.map(suggestion => (
+            <button
+              key={suggestion.key}
+              onClick={() => onApply(suggestion.updates)}
+              className="px-3 py-1.5 rounded-full bg-white border border-blue-300 text-blue-800 active:bg-blue-100 font-medium"
+            >
+              {suggestion.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {entities.contacts.length > 0 && (
+        <div className="text-gray-700">
+          <span className="text-gray-500">Contacts: </span>
+          {entities.contacts.map(c => (c.role ? `${c.name} (${c.role})` : c.name)).join(', ')}
+        </div>
+      )}
+      {entities.competitors.length > 0 && (
+        <div className="text-gray-700">
+          <span className="text-gray-500">Competitors: </span>
+          {entities.competitors.join(', ')}
+        </div>
+      )}
+      {otherDates.length > 0 && (
+        <div className="text-gray-700">
+          <span className="text-gray-500">Dates: </span>
+          {otherDates.map(d => `${d.text} (${new Date(d.date).toLocaleDateString(undefined, { timeZone: 'UTC' })})`).join(', ')}
+        </div>
+      )}
+      {entities.next_steps.length > 0 && (
+        <div className="text-gray-700">
+          <span className="text-gray-500">Next steps: </span>
+          {entities.next_steps.join('; ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import type { Deal, Note } from '../lib/db';
 import { getNotesByDeal, addNote } from '../lib/db';
-import { analyzeSentiment } from '../lib/api/sentiment';
+import { analyzeSentiment, toNoteSentiment, MAX_NOTE_LENGTH } from '../lib/api/sentiment';
+import { analyzeSentimentLocally } from '../lib/sentiment/lexicon';
 import { NoteItem } from './NoteItem';
 import { useToast } from './Toast';
 
@@ -42,12 +43,7 @@ export function NotesModal({ deal, isOpen, onClose, onNoteAdded }: NotesModalPro
 
     try {
       const sentiment = await analyzeSentiment(newNoteText.trim());
-      const note = await addNote(
-        deal.id,
-        newNoteText.trim(),
-        sentiment.score,
-        sentiment.label
-      );
+      const note = await addNote(deal.id, newNoteText.trim(), toNoteSentiment(sentiment));
       setNotes([note, ...notes]);
       setNewNoteText('');
       if (navigator.vibrate) navigator.vibrate(10);
@@ -56,10 +52,12 @@ export function NotesModal({ deal, isOpen, onClose, onNoteAdded }: NotesModalPro
     } catch (error) {
       console.error('Failed to add note with sentiment:', error);
       try {
-        const note = await addNote(deal.id, newNoteText.trim(), null, null);
+        // Provisional on-device score; the backfill queue swaps in the server's
+        const local = analyzeSentimentLocally(newNoteText.trim());
+        const note = await addNote(deal.id, newNoteText.trim(), toNoteSentiment(local));
         setNotes([note, ...notes]);
         setNewNoteText('');
-        showToast('Note added (sentiment unavailable)', 'info');
+        showToast('Note added (sentiment estimated offline)', 'info');
         onNoteAdded();
       } catch (innerError) {
         console.error('Failed to add note:', innerError);
@@ -99,7 +97,7 @@ export function NotesModal({ deal, isOpen, onClose, onNoteAdded }: NotesModalPro
             </div>
           ) : (
             notes.map((note) => (
-              <NoteItem key={note.id} note={note} />
+              <NoteItem key={note.id} note={note} onSentimentChanged={loadNotes} />
             ))
           )}
         </div>
@@ -111,6 +109,7 @@ export function NotesModal({ deal, isOpen, onClose, onNoteAdded }: NotesModalPro
               value={newNoteText}
               onChange={(e) => setNewNoteText(e.target.value)}
               placeholder="Add a note..."
+              maxLength={MAX_NOTE_LENGTH}
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-gray-900"
               rows={3}
               disabled={isAnalyzing}
@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { liveQuery } from 'dexie';
+import {
+  getPendingDeals,
+  getPendingNotes,
+  discardLocalDealChanges,
+  discardLocalNote,
+  discardSentimentOverride,
+  DEAL_FIELDS,
+  sameFieldValue,
+  type Deal,
+  type DealField,
+  type Note
+} from '../lib/db';
+import { DEAL_FIELD_LABELS, formatDealFieldValue } from '../lib/utils/format';
+import { useToast } from './Toast';
+
+interface PendingItems {
+  deals: Deal[];
+  notes: Note[];
+}
+
+async function fetchPending(): Promise<PendingItems> {
+  const [deals, notes] = await Promise.all([getPendingDeals(), getPendingNotes()]);
+  return { deals, notes };
+}
+
+// Fields whose local value differs from the server-acknowledged copy
+function changedFields(deal: Deal): DealField[] {
+  if (!deal.server_copy) return [];
+  const copy = deal.server_copy;
+  return DEAL_FIELDS.filter(field => !sameFieldValue(deal[field], copy[field]));
+}
+
+interface PendingChangesProps {
+  onDiscarded: () => void;
+}
+
+export function PendingChanges({ onDiscarded }: PendingChangesProps) {
+  const [pending, setPending] = useState<PendingItems>({ deals: [], notes: [] });
+  const [isOpen, setIsOpen] = useState(false);
+  const { showToast } = useToast();
+
+  // Local edits happen all over the app, so follow the tables rather than a refresh key
+  useEffect(() => {
+    const subscription = liveQuery(fetchPending).subscribe({
+      next: setPending,
+      error: error => console.error('Failed to load pending changes:', error)
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const handleDiscard = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      if (navigator.vibrate) navigator.vibrate(10);
+      showToast('Local change discarded');
+      onDiscarded();
+    } catch (error) {
+      console.error('Failed to discard local change:', error);
+      showToast('Failed to discard change', 'error');
+    }
+  };
+
+  const total = pending.deals.length + pending.notes.length;
+  if (total === 0) return null;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full px-4 py-2 bg-blue-50 border-b border-blue-200 text-blue-800 text-sm font-medium flex items-center justify-between"
+      >
+        <span>
+          {total} change{total !== 1 ? 's' : ''} not uploaded yet
+        </span>
+        <span className="underline">View</span>
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50" onClick={() => setIsOpen(false)}>
+          <div
+            className="bg-white rounded-t-2xl w-full max-w-md p-4 pb-8 max-h-[80vh] overflow-y-auto"
+            style={{ paddingBottom: 'max(2rem, env(safe-area-inset-bottom))' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="w-12 h-1 bg-gray-300 rounded-full mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 text-center mb-1">Pending changes</h2>
+            <p className="text-sm text-gray-500 text-center mb-4">
+              Saved on this device and waiting to upload.
+            </p>
+
+            <div className="space-y-3">
+              {pending.deals.map(deal => {
+                const fields = changedFields(deal);
+                return (
+                  <div key={deal.id} className="border border-gray-200 rounded-lg p-3">
+                    <div className="text-xs text-gray-500 uppercase tracking-wide">
+                      {deal.server_copy === null ? 'New deal' : 'Deal'}
+                    </div>
+                    <div className="font-medium text-gray-900 truncate mb-1">{deal.name || 'Untitled deal'}</div>
+
+                    {deal.server_copy === undefined && (
+                      <div className="text-sm text-gray-500 mb-2">No server copy to compare against</div>
+                    )}
+
+                    {fields.length > 0 && (
+                      <div className="space-y-1 mb-2">
+                        {fields.map(field => (
+                          <div key={field} className="text-sm">
+                            <span className="text-gray-500">{DEAL_FIELD_LABELS[field]}: </span>
+                            <span className="text-gray-400 line-through">
+                              {formatDealFieldValue(field, deal.server_copy?.[field])}
+                            </span>
+                            <span className="text-gray-900 font-medium"> → {formatDealFieldValue(field, deal[field])}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {deal.sync_error && <div className="text-sm text-red-600 mb-2">{deal.sync_error}</div>}
+
+                    {deal.server_copy !== undefined && (
+                      <button
+                        onClick={() => handleDiscard(() => discardLocalDealChanges(deal.id))}
+                        className="px-3 py-1.5 rounded-lg bg-gray-100 text-gray-700 active:bg-gray-200 text-sm font-medium"
+                      >
+                        {deal.server_copy === null ? 'Discard deal' : 'Discard local change'}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+
+              {pending.notes.map(note => (
+                <div key={note.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="text-xs text-gray-500 uppercase tracking-wide">
+                    {note.sentiment_only ? 'Note sentiment' : 'New note'}
+                  </div>
+                  <div className="text-gray-700 line-clamp-2 break-words mb-2">{note.content}</div>
+                  {note.sentiment_only && (
+                    <div className="text-sm mb-2">
+                      <span className="text-gray-500">Sentiment: </span>
+                      <span className="text-gray-400 line-through">
+                        {note.server_sentiment ? (note.server_sentiment.sentiment_label ?? 'unscored') : '—'}
+                      </span>
+                      <span className="text-gray-900 font-medium"> → {note.sentiment_label}</span>
+                    </div>
+                  )}
+                  {note.sync_error && <div className="text-sm text-red-600 mb-2">{note.sync_error}</div>}
+                  {!note.sentiment_only && (
+                    <button
+                      onClick={() => handleDiscard(() => discardLocalNote(note.id))}
+                      className="px-3 py-1.5 rounded-lg bg-gray-100 text-gray-700 active:bg-gray-200 text-sm font-medium"
+                    >
+                      Discard local change
+                    </button>
+                  )}
+                  {/* A backfilled score is derived, not an edit, so only a manual label can be taken back */}
+                  {note.sentiment_only && note.sentiment_source === 'manual' && note.server_sentiment && (
+                    <button
+                      onClick={() => handleDiscard(() => discardSentimentOverride(note.id))}
+                      className="px-3 py-1.5 rounded-lg bg-gray-100 text-gray-700 active:bg-gray-200 text-sm font-medium"
+                    >
+                      Discard local change
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={() => setIsOpen(false)}
+              className="w-full mt-4 py-3 text-gray-500 font-medium"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { getSyncLog, type SyncLogEntry } from '../lib/db';
+import { useToast } from './Toast';
+
+interface SyncHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Support attaches this file to tickets; keep it self-describing
+function exportSyncLog(entries: SyncLogEntry[]): void {
+  const report = {
+    exported_at: new Date().toISOString(),
+    user_agent: navigator.userAgent,
+    online: navigator.onLine,
+    entries
+  };
+
+  const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sync-history-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  // Some browsers start the download after click() returns; revoking right
+  // away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function SyncHistory({ isOpen, onClose }: SyncHistoryProps) {
+  const [entries, setEntries] = useState<SyncLogEntry[]>([]);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    getSyncLog()
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(error => console.error('Failed to load sync history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const handleExport = () => {
+    try {
+      exportSyncLog(entries);
+    } catch (error) {
+      console.error('Failed to export sync history:', error);
+      showToast('Failed to export', 'error');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-t-2xl w-full max-w-md p-4 pb-8 max-h-[80vh] overflow-y-auto"
+        style={{ paddingBottom: 'max(2rem, env(safe-area-inset-bottom))' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-12 h-1 bg-gray-300 rounded-full mx-auto mb-4" />
+        <h2 className="text-lg font-semibold text-gray-900 text-center mb-1">Sync history</h2>
+        <p className="text-sm text-gray-500 text-center mb-4">
+          The most recent syncs from this device.
+        </p>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No syncs recorded yet</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map(entry => (
+              <div
+                key={entry.id}
+                className={`border rounded-lg p-3 text-sm ${
+                  entry.error ? 'border-red-200 bg-red-50' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900">
+                    {entry.started_at.toLocaleString()}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {formatDuration(entry.duration_ms)}
+                    {entry.source === 'background' && ' · background'}
+                  </span>
+                </div>
+                <div className="text-gray-600">
+                  Sent {entry.sent.deals} deals, {entry.sent.notes} notes ·
+                  Received {entry.received.deals} deals, {entry.received.notes} notes
+                  {entry.received.tombstones > 0 && `, ${entry.received.tombstones} deletions`}
+                </div>
+                {(entry.rejected > 0 || entry.conflicts > 0) && (
+                  <div className="text-amber-700">
+                    {entry.rejected} rejected · {entry.conflicts} conflicts
+                  </div>
+                )}
+                {entry.error && <div className="text-red-600">{entry.error}</div>}
+                {entry.server_time && (
+                  <div className="text-xs text-gray-400">
+                    Server time {new Date(entry.server_time).toLocaleString()}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 mt-4">
+          <button
+            onClick={handleExport}
+            disabled={entries.length === 0}
+            className="py-3 rounded-lg bg-blue-50 text-blue-700 active:bg-blue-100 font-medium disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={onClose}
+            className="py-3 text-gray-500 font-medium"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import {
+  getRejectedDeals,
+  getRejectedNotes,
+  retryRejectedDeal,
+  retryRejectedNote,
+  discardLocalNote,
+  type Deal,
+  type Note
+} from '../lib/db';
+import { useToast } from './Toast';
+
+interface RejectedItems {
+  deals: Deal[];
+  notes: Note[];
+}
+
+async function fetchRejected(): Promise<RejectedItems> {
+  const [deals, notes] = await Promise.all([getRejectedDeals(), getRejectedNotes()]);
+  return { deals, notes };
+}
+
+interface SyncRejectionsProps {
+  refreshKey: unknown;
+  onRetry: () => void;
+}
+
+export function SyncRejections({ refreshKey, onRetry }: SyncRejectionsProps) {
+  const [rejected, setRejected] = useState<RejectedItems>({ deals: [], notes: [] });
+  const [isOpen, setIsOpen] = useState(false);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRejected()
+      .then(result => {
+        if (!cancelled) setRejected(result);
+      })
+      .catch(error => console.error('Failed to load rejected items:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const handleRetry = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setRejected(await fetchRejected());
+      onRetry();
+    } catch (error) {
+      console.error('Failed to retry item:', error);
+      showToast('Failed to retry', 'error');
+    }
+  };
+
+  const handleDiscardNote = async (note: Note) => {
+    try {
+      await discardLocalNote(note.id);
+      showToast('Note discarded');
+      setRejected(await fetchRejected());
+    } catch (error) {
+      console.error('Failed to discard note:', error);
+      showToast('Failed to discard note', 'error');
+    }
+  };
+
+  const total = rejected.deals.length + rejected.notes.length;
+  if (total === 0) return null;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full px-4 py-2 bg-red-50 border-b border-red-200 text-red-800 text-sm font-medium flex items-center justify-between"
+      >
+        <span>
+          {total} item{total !== 1 ? 's' : ''} couldn't sync
+        </span>
+        <span className="underline">Details</span>
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50" onClick={() => setIsOpen(false)}>
+          <div
+            className="bg-white rounded-t-2xl w-full max-w-md p-4 pb-8 max-h-[80vh] overflow-y-auto"
+            style={{ paddingBottom: 'max(2rem, env(safe-area-inset-bottom))' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="w-12 h-1 bg-gray-300 rounded-full mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 text-center mb-1">Couldn't sync</h2>
+            <p className="text-sm text-gray-500 text-center mb-4">
+              The server rejected these changes. Everything else keeps syncing.
+            </p>
+
+            <div className="space-y-3">
+              {rejected.deals.map(deal => (
+                <div key={deal.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="text-xs text-gray-500 uppercase tracking-wide">Deal</div>
+                  <div className="font-medium text-gray-900 truncate">{deal.name || 'Untitled deal'}</div>
+                  <div className="text-sm text-red-600 mb-2">{deal.sync_error}</div>
+                  <button
+                    onClick={() => handleRetry(() => retryRejectedDeal(deal.id))}
+                    className="px-3 py-1.5 rounded-lg bg-blue-50 text-blue-700 active:bg-blue-100 text-sm font-medium"
+                  >
+                    Retry
+                  </button>
+                </div>
+              ))}
+
+              {rejected.notes.map(note => (
+                <div key={note.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="text-xs text-gray-500 uppercase tracking-wide">Note</div>
+                  <div className="text-gray-700 line-clamp-2 break-words">{note.content}</div>
+                  <div className="text-sm text-red-600 mb-2">{note.sync_error}</div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleRetry(() => retryRejectedNote(note.id))}
+                      className="px-3 py-1.5 rounded-lg bg-blue-50 text-blue-700 active:bg-blue-100 text-sm font-medium"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => handleDiscardNote(note)}
+                      className="px-3 py-1.5 rounded-lg bg-gray-100 text-gray-700 active:bg-gray-200 text-sm font-medium"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={() => setIsOpen(false)}
+              className="w-full mt-4 py-3 text-gray-500 font-medium"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,10 +1,29 @@
+import { useState, useEffect } from 'react';
+import { SyncHistory } from './SyncHistory';
+
 interface SyncStatusBarProps {
   isSyncing: boolean;
   lastSyncTime: Date | null;
   error: string | null;
+  attempt: number;
+  nextRetryAt: Date | null;
   onSync: () => void;
 }
 
+// Seconds until the given time, re-rendering once a second while it counts down
+function useSecondsUntil(target: Date | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!target) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [target]);
+
+  if (!target) return null;
+  return Math.max(0, Math.ceil((target.getTime() - now) / 1000));
+}
+
 function formatLastSync(date: Date | null): string {
   if (!date) return 'Never synced';
 
@@ -20,7 +39,10 @@ function formatLastSync(date: Date | null): string {
   return date.toLocaleDateString();
 }
 
-export function SyncStatusBar({ isSyncing, lastSyncTime, error, onSync }: SyncStatusBarProps) {
+export function SyncStatusBar({ isSyncing, lastSyncTime, error, attempt, nextRetryAt, onSync }: SyncStatusBarProps) {
+  const retryIn = useSecondsUntil(nextRetryAt);
+  const [showHistory, setShowHistory] = useState(false);
+
   return (
     <div className={`px-4 py-3 flex items-center justify-between border-b ${
       error ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'
@@ -33,17 +55,21 @@ export function SyncStatusBar({ isSyncing, lastSyncTime, error, onSync }: SyncSt
           'bg-green-500'
         }`} />
 
-        <div className="text-sm">
+        <button onClick={() => setShowHistory(true)} className="text-sm text-left">
           {isSyncing ? (
             <span className="text-blue-600 font-medium">Syncing...</span>
           ) : error ? (
-            <span className="text-red-600">Sync failed</span>
+            <span className="text-red-600">
+              Sync failed
+              {attempt > 1 && <span className="text-red-500"> ({attempt} attempts)</span>}
+              {retryIn !== null && <span className="block text-xs text-red-500">Next retry in {retryIn}s</span>}
+            </span>
           ) : (
             <span className="text-gray-600">
               Last sync: <span className="font-medium">{formatLastSync(lastSyncTime)}</span>
             </span>
           )}
-        </div>
+        </button>
       </div>
 
       <button
@@ -74,6 +100,8 @@ export function SyncStatusBar({ isSyncing, lastSyncTime, error, onSync }: SyncSt
           </>
         )}
       </button>
+
+      <SyncHistory isOpen={showHistory} onClose={() => setShowHistory(false)} />
     </div>
   );
 }
@@ -0,0 +1,34 @@
+import { useRegisterSW } from 'virtual:pwa-register/react';
+
+export function UpdatePrompt() {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error);
+    }
+  });
+
+  if (!needRefresh) return null;
+
+  return (
+    <div className="fixed bottom-24 left-4 right-4 z-50 bg-gray-900 text-white rounded-lg shadow-lg px-4 py-3 flex items-center justify-between gap-3 text-sm">
+      <span>A new version is available</span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setNeedRefresh(false)}
+          className="px-3 py-1.5 text-gray-300 font-medium"
+        >
+          Later
+        </button>
+        <button
+          onClick={() => updateServiceWorker(true)}
+          className="px-3 py-1.5 bg-blue-600 rounded-lg font-medium active:bg-blue-700"
+        >
+          Reload
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+export const SYNC_TAG = 'deals-sync';
+
+// Periodic Sync is only granted to installed PWAs and the browser may stretch this a lot
+const PERIODIC_SYNC_INTERVAL = 12 * 60 * 60 * 1000;
+
+// Background Sync and Periodic Background Sync aren't in the TypeScript DOM lib yet
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+}
+
+// Asks the service worker to push queued changes once there's connectivity,
+// even if the tab gets closed first. Safe to call after every local write.
+export async function requestBackgroundSync(): Promise<void> {
+  // Only pages register; inside the service worker itself there's nothing to do
+  if (!('document' in globalThis) || !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration: SyncCapableRegistration = await navigator.serviceWorker.ready;
+
+    if (registration.sync) {
+      await registration.sync.register(SYNC_TAG);
+    }
+
+    if (registration.periodicSync) {
+      const status = await navigator.permissions.query({
+        name: 'periodic-background-sync' as PermissionName
+      });
+      if (status.state === 'granted') {
+        await registration.periodicSync.register(SYNC_TAG, {
+          minInterval: PERIODIC_SYNC_INTERVAL
+        });
+      }
+    }
+  } catch (error) {
+    console.warn('Background sync registration failed:', error);
+  }
+}
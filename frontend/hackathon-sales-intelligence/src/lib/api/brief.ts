@@ -0,0 +1,42 @@
+import type { Deal, DealBrief, Note } from '../db';
+
+export interface DealBriefResult {
+  brief: DealBrief;
+  // 'fallback' means the server's model was unavailable and a template answered
+  source: 'model' | 'fallback';
+  model: string;
+  model_version: string;
+}
+
+// The server takes at most this many of the latest notes
+const MAX_NOTES = 100;
+
+// notes are oldest first. Throws when the API can't be reached.
+export async function generateDealBrief(deal: Deal, notes: Note[]): Promise<DealBriefResult> {
+  const response = await fetch('/api/brief', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      deal: {
+        name: deal.name,
+        value: deal.value,
+        status: deal.status,
+        stage: deal.stage,
+        expected_close_date: deal.expected_close_date,
+        customer_name: deal.customer_name
+      },
+      notes: notes.slice(-MAX_NOTES).map(note => ({
+        content: note.content,
+        created_at: note.created_at,
+        sentiment_label: note.sentiment_label,
+        sentiment_score: note.sentiment_score
+      }))
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Brief generation failed');
+  }
+
+  return response.json();
+}
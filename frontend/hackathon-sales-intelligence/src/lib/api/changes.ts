@@ -0,0 +1,54 @@
+import { getSyncCursor } from '../db';
+
+const RECONNECT_DELAY = 5000;
+
+// Listens to /api/changes and calls onChange whenever another device pushes.
+// The stream is reopened by hand (not by EventSource's own retry) so each
+// connection starts from the latest local cursor. Returns an unsubscribe function.
+export function subscribeToChanges(onChange: () => void): () => void {
+  let source: EventSource | null = null;
+  let reconnectTimer: number | null = null;
+  let closed = false;
+
+  const connect = async () => {
+    if (closed) return;
+    if (!navigator.onLine) return; // The online listener reconnects
+
+    const cursor = await getSyncCursor();
+    if (closed) return;
+
+    const url = cursor ? `/api/changes?cursor=${encodeURIComponent(cursor)}` : '/api/changes';
+    source = new EventSource(url);
+
+    source.addEventListener('change', () => onChange());
+
+    // Fires on network errors and when the server ends the stream
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      scheduleReconnect();
+    };
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer !== null) return;
+    reconnectTimer = window.setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, RECONNECT_DELAY);
+  };
+
+  const handleOnline = () => {
+    if (!source) connect();
+  };
+
+  window.addEventListener('online', handleOnline);
+  connect();
+
+  return () => {
+    closed = true;
+    window.removeEventListener('online', handleOnline);
+    if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+    source?.close();
+  };
+}
@@ -0,0 +1,40 @@
+export interface NoteEntities {
+  // The customer's company, when the note names it
+  customer: string | null;
+  contacts: { name: string; role: string | null }[];
+  budgets: number[];
+  competitors: string[];
+  // ISO dates (YYYY-MM-DD). decision: when the customer decides or signs
+  dates: { date: string; kind: 'decision' | 'meeting' | 'other'; text: string }[];
+  next_steps: string[];
+}
+
+export interface ExtractionResult {
+  entities: NoteEntities;
+  // 'fallback' means the server's model was unavailable and pattern rules answered
+  source: 'model' | 'fallback';
+  model: string;
+  model_version: string;
+}
+
+// The rep's calendar date, not UTC, so "Friday" resolves to their Friday
+function localDate(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+// Throws when the API can't be reached; extraction is a convenience, so
+// callers just skip it
+export async function extractEntities(text: string): Promise<ExtractionResult> {
+  const response = await fetch('/api/extract', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, reference_date: localDate() })
+  });
+
+  if (!response.ok) {
+    throw new Error('Extraction failed');
+  }
+
+  return response.json();
+}
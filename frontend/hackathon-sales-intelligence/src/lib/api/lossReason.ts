@@ -0,0 +1,29 @@
+export interface LossReasonSuggestion {
+  reason: 'price' | 'timing' | 'competitor' | 'fit' | 'other';
+  justification: string;
+}
+
+export interface LossReasonResult {
+  // null when the notes don't point anywhere
+  suggestion: LossReasonSuggestion | null;
+  // 'local' means the keyword rules ran on this device
+  source: 'model' | 'fallback' | 'local';
+  model: string;
+  model_version: string;
+}
+
+// notes are the deal's note texts, newest first. Throws when the API can't be
+// reached, so callers can fall back to the on-device rules.
+export async function suggestLossReason(notes: string[]): Promise<LossReasonResult> {
+  const response = await fetch('/api/loss-reason', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ notes })
+  });
+
+  if (!response.ok) {
+    throw new Error('Loss reason suggestion failed');
+  }
+
+  return response.json();
+}
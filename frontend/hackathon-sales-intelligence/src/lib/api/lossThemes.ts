@@ -0,0 +1,41 @@
+export interface LossTheme {
+  theme: string;
+  summary: string;
+  // How many of the matching lost deals the theme comes up in
+  deal_count: number;
+  quotes: { deal_name: string; text: string }[];
+}
+
+export interface LossThemesFilter {
+  reason?: 'price' | 'timing' | 'competitor' | 'fit' | 'other';
+  // YYYY-MM-DD, compared with when each deal was marked lost
+  from?: string;
+  to?: string;
+}
+
+export interface LossThemesResult {
+  themes: LossTheme[];
+  deal_count: number;
+  // 'fallback' means the server's model was unavailable and keyword rules answered
+  source: 'model' | 'fallback';
+  model: string;
+  model_version: string;
+}
+
+// Reads synced deals on the server, so it needs a connection. Throws when the
+// API can't be reached.
+export async function getLossThemes(filter: LossThemesFilter = {}): Promise<LossThemesResult> {
+  const params = new URLSearchParams();
+  if (filter.reason) params.set('reason', filter.reason);
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+
+  const query = params.toString();
+  const response = await fetch(`/api/loss-themes${query ? `?${query}` : ''}`);
+
+  if (!response.ok) {
+    throw new Error('Loss theme analysis failed');
+  }
+
+  return response.json();
+}
@@ -1,22 +1,63 @@
+import type { NoteSentiment, SentimentAspects } from '../db';
+
+// Matches the server's limit; longer texts get a 413
+export const MAX_NOTE_LENGTH = 20000;
+
 export interface SentimentResult {
   score: number;
   label: 'positive' | 'neutral' | 'negative';
+  confidence: number | null;
+  // 'fallback' means the server's model was unavailable and its lexicon answered
+  source: 'model' | 'fallback' | 'local';
+  // ID of the model that produced the score, and the exact version it reported
+  model: string;
+  model_version: string;
+  // Polarity per loss-reason topic the note mentions
+  aspects: SentimentAspects;
+  // Set by the server: true when it reused an earlier model score for the same text
+  cached?: boolean;
+}
+
+export function toNoteSentiment(result: SentimentResult): NoteSentiment {
+  return {
+    sentiment_score: result.score,
+    sentiment_label: result.label,
+    sentiment_source: result.source,
+    sentiment_confidence: result.confidence,
+    sentiment_model: result.model,
+    sentiment_model_version: result.model_version,
+    sentiment_aspects: result.aspects ?? null
+  };
 }
 
+// Throws when the API can't be reached, so callers store the note unscored
+// and the backfill queue picks it up instead of recording a fake neutral
 export async function analyzeSentiment(text: string): Promise<SentimentResult> {
-  try {
-    const response = await fetch('/api/sentiment', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ text })
-    });
-
-    if (!response.ok) {
-      return { score: 0, label: 'neutral' };
-    }
-
-    return response.json();
-  } catch {
-    return { score: 0, label: 'neutral' };
+  const response = await fetch('/api/sentiment', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text })
+  });
+
+  if (!response.ok) {
+    throw new Error('Sentiment analysis failed');
   }
+
+  return response.json();
+}
+
+// Results come back in the same order as the texts
+export async function analyzeSentimentBatch(texts: string[]): Promise<SentimentResult[]> {
+  const response = await fetch('/api/sentiment', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ texts })
+  });
+
+  if (!response.ok) {
+    throw new Error('Sentiment analysis failed');
+  }
+
+  const data: { results: SentimentResult[] } = await response.json();
+  return data.results;
 }
@@ -0,0 +1,56 @@
+import {
+  db,
+  getDueSentimentJobs,
+  completeSentimentJob,
+  failSentimentJobs,
+  removeSentimentJobs,
+  needsModelScore
+} from '../db';
+import { analyzeSentimentBatch, toNoteSentiment, MAX_NOTE_LENGTH } from './sentiment';
+
+// Matches the server's per-request cap
+const BATCH_SIZE = 20;
+
+// Scores notes that were saved without a model sentiment. Stops at the first
+// failed batch; those jobs back off and are retried on a later run, as are
+// notes the server could only score with its fallback. Returns how many notes
+// were scored, which then need syncing.
+export async function runSentimentBackfill(): Promise<number> {
+  let scored = 0;
+
+  while (navigator.onLine) {
+    const jobs = await getDueSentimentJobs(BATCH_SIZE);
+    if (jobs.length === 0) break;
+
+    const noteIds = jobs.map(job => job.note_id);
+    const notes = await db.notes.bulkGet(noteIds);
+
+    // Deleted notes, or ones another device already scored, need no work.
+    // Nor do notes too long for the server, which keep their on-device score.
+    const stale = noteIds.filter((_, i) =>
+      !notes[i] || !needsModelScore(notes[i]!) || notes[i]!.content.length > MAX_NOTE_LENGTH
+    );
+    if (stale.length > 0) {
+      await removeSentimentJobs(stale);
+    }
+
+    const pending = notes
+      .filter(note => note && needsModelScore(note) && note.content.length <= MAX_NOTE_LENGTH)
+      .map(note => note!);
+    if (pending.length === 0) continue;
+
+    try {
+      const results = await analyzeSentimentBatch(pending.map(note => note.content));
+      for (let i = 0; i < pending.length; i++) {
+        await completeSentimentJob(pending[i].id, toNoteSentiment(results[i]));
+      }
+      scored += pending.length;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Sentiment analysis failed';
+      await failSentimentJobs(pending.map(note => note.id), message);
+      break;
+    }
+  }
+
+  return scored;
+}
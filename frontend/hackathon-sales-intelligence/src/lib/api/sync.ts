@@ -1,64 +1,150 @@
 import {
   db,
-  getDeals,
-  markDealsSynced,
+  getUnsyncedDeals,
+  getUnsyncedNotes,
   markNotesSynced,
+  pickNoteSentiment,
+  getSyncCursor,
+  setSyncCursor,
+  markDealsRejected,
+  markNotesRejected,
+  saveConflicts,
+  addSyncLogEntry,
+  getPendingFeedback,
+  removeFeedback,
+  sameFieldValue,
+  pickDealFields,
+  DEAL_FIELDS,
   type Deal,
-  type Note
+  type DealField,
+  type Note,
+  type SentimentFeedback,
+  type SyncLogEntry
 } from '../db';
 
+// Server record of a hard-deleted deal or note
+interface Tombstone {
+  entity_type: 'deal' | 'note';
+  entity_id: string;
+  deleted_at: string;
+}
+
+interface SyncUpdates {
+  deals: Deal[];
+  notes: Note[];
+  tombstones: Tombstone[];
+}
+
 interface SyncRequest {
-  lastSync: string | null;
+  cursor: string | null;
   changes: {
     deals: Deal[];
     notes: Note[];
+    feedback?: SentimentFeedback[];
   };
-  fullSync?: boolean;
 }
 
 interface SyncResponse {
   serverTime: string;
-  updates: {
-    deals: Deal[];
-    notes: Note[];
+  // Opaque server position; send it back unchanged on the next sync
+  cursor: string | null;
+  hasMore: boolean;
+  // IDs of the uploaded rows the server persisted
+  accepted: {
+    deals: string[];
+    notes: string[];
+    feedback?: string[];
+    // New server revision of each accepted deal
+    revisions: Record<string, number>;
   };
+  // Rows the server refused, with the reason; they're dead-lettered locally
+  rejected: {
+    deals: { id: string; reason: string }[];
+    notes: { id: string; reason: string }[];
+    feedback?: { id: string; reason: string }[];
+  };
+  // Fields edited here and on another device since our base revision; not applied
+  conflicts: ServerConflict[];
+  updates: SyncUpdates;
 }
 
-async function applyServerUpdates(updates: {
-  deals: Deal[];
-  notes: Note[];
-}): Promise<void> {
+interface ServerConflict {
+  deal_id: string;
+  field: DealField;
+  local_value: unknown;
+  server_value: unknown;
+  server_revision: number;
+}
+
+async function applyServerUpdates(updates: SyncUpdates): Promise<void> {
   for (const deal of updates.deals) {
     const existing = await db.deals.get(deal.id);
-    if (!existing || new Date(deal.updated_at) > new Date(existing.updated_at)) {
-      await db.deals.put({ ...deal, synced: true });
+
+    if (!existing || existing.synced) {
+      await db.deals.put({
+        ...deal,
+        synced: true,
+        changed_fields: [],
+        base_revision: deal.revision ?? null,
+        server_copy: pickDealFields(deal)
+      });
+      continue;
     }
+
+    // Pending local edits: take the server's value for every field we haven't
+    // touched. The base revision stays put so the server can still spot
+    // conflicts on the fields we did change.
+    const merged: Partial<Deal> = { server_copy: pickDealFields(deal) };
+    for (const field of DEAL_FIELDS) {
+      if (!existing.changed_fields.includes(field)) {
+        Object.assign(merged, { [field]: deal[field] });
+      }
+    }
+    await db.deals.update(deal.id, merged);
   }
 
   for (const note of updates.notes) {
     const existing = await db.notes.get(note.id);
-    if (!existing) {
-      await db.notes.put({ ...note, synced: true });
+    // Synced notes can still change on the server when sentiment is backfilled.
+    // A note with a score waiting to upload keeps it, but learns the server's.
+    if (!existing || existing.synced) {
+      await db.notes.put({ ...note, synced: true, server_sentiment: pickNoteSentiment(note) });
+    } else {
+      await db.notes.update(note.id, { server_sentiment: pickNoteSentiment(note) });
     }
   }
-}
 
-export async function performSync(): Promise<void> {
-  // Get ALL local deals and notes (including archived) for full persistence
-  const allDeals = await getDeals(true); // true = include archived
-  const allNotes = await db.notes.toArray();
+  // Deletions win over any local copy, including unsynced edits
+  const deletedDealIds = (updates.tombstones ?? [])
+    .filter(t => t.entity_type === 'deal')
+    .map(t => t.entity_id);
+  const deletedNoteIds = (updates.tombstones ?? [])
+    .filter(t => t.entity_type === 'note')
+    .map(t => t.entity_id);
 
-  const lastSync = localStorage.getItem('lastSyncTime');
+  if (deletedDealIds.length > 0 || deletedNoteIds.length > 0) {
+    await db.transaction(
+      'rw',
+      [db.deals, db.notes, db.conflicts, db.dealBriefs, db.sentimentJobs, db.sentimentFeedback],
+      async () => {
+        // Notes going with their deal, and the deals of notes deleted on their own
+        const dealNotes = await db.notes.where('deal_id').anyOf(deletedDealIds).toArray();
+        const deletedNotes = (await db.notes.bulkGet(deletedNoteIds)).filter(note => note !== undefined);
+        const noteIds = [...deletedNoteIds, ...dealNotes.map(note => note.id)];
+        const briefDealIds = [...deletedDealIds, ...deletedNotes.map(note => note.deal_id)];
 
-  const request: SyncRequest = {
-    lastSync,
-    changes: {
-      deals: allDeals,
-      notes: allNotes
-    },
-    fullSync: true
-  };
+        await db.conflicts.where('deal_id').anyOf(deletedDealIds).delete();
+        await db.dealBriefs.bulkDelete(briefDealIds);
+        await db.sentimentJobs.bulkDelete(noteIds);
+        await db.sentimentFeedback.where('note_id').anyOf(noteIds).delete();
+        await db.notes.bulkDelete(noteIds);
+        await db.deals.bulkDelete(deletedDealIds);
+      }
+    );
+  }
+}
 
+async function postSync(request: SyncRequest): Promise<SyncResponse> {
   const response = await fetch('/api/sync', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -69,18 +155,167 @@ export async function performSync(): Promise<void> {
     throw new Error('Sync failed');
   }
 
-  const data: SyncResponse = await response.json();
+  return response.json();
+}
+
+type SyncSource = SyncLogEntry['source'];
+type SyncStats = Omit<SyncLogEntry, 'id' | 'started_at' | 'duration_ms' | 'source' | 'error'>;
+
+// The page and the service worker can both sync; a Web Lock keeps them from
+// interleaving and marking each other's rows synced.
+export async function performSync(source: SyncSource = 'app'): Promise<void> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request('deals-sync', () => journaledSync(source));
+  }
+  return journaledSync(source);
+}
+
+// Every run lands in the sync journal, failed ones included, with whatever
+// was exchanged before the failure
+async function journaledSync(source: SyncSource): Promise<void> {
+  const startedAt = new Date();
+  const stats: SyncStats = {
+    sent: { deals: 0, notes: 0 },
+    received: { deals: 0, notes: 0, tombstones: 0 },
+    rejected: 0,
+    conflicts: 0,
+    server_time: null
+  };
+  let error: string | null = null;
+
+  try {
+    await runSync(stats);
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Sync failed';
+    throw e;
+  } finally {
+    await addSyncLogEntry({
+      ...stats,
+      started_at: startedAt,
+      duration_ms: Date.now() - startedAt.getTime(),
+      source,
+      error
+    }).catch(logError => console.error('Failed to record sync:', logError));
+  }
+}
+
+function countReceived(stats: SyncStats, response: SyncResponse): void {
+  stats.server_time = response.serverTime;
+  stats.received.deals += response.updates.deals.length;
+  stats.received.notes += response.updates.notes.length;
+  stats.received.tombstones += response.updates.tombstones?.length ?? 0;
+}
+
+async function runSync(stats: SyncStats): Promise<void> {
+  // Only upload rows changed locally since they were last acknowledged
+  const dirtyDeals = await getUnsyncedDeals();
+  const dirtyNotes = await getUnsyncedNotes();
+  const feedback = await getPendingFeedback();
+
+  let cursor = await getSyncCursor();
+
+  stats.sent = { deals: dirtyDeals.length, notes: dirtyNotes.length };
+
+  const data = await postSync({
+    cursor,
+    changes: {
+      deals: dirtyDeals,
+      notes: dirtyNotes,
+      feedback
+    }
+  });
+  countReceived(stats, data);
+  stats.rejected = (data.rejected?.deals.length ?? 0) + (data.rejected?.notes.length ?? 0);
+  stats.conflicts = data.conflicts?.length ?? 0;
+
+  const sentDeals = new Map(dirtyDeals.map(d => [d.id, d]));
+
+  // Conflicting fields keep the server value locally; the rep's value moves to the inbox
+  const conflicts = (data.conflicts ?? []).filter(c => sentDeals.has(c.deal_id));
+  if (conflicts.length > 0) {
+    await saveConflicts(conflicts.map(c => ({
+      ...c,
+      id: `${c.deal_id}:${c.field}`,
+      created_at: new Date()
+    })));
+  }
+
+  // Acknowledge accepted deals. Deals edited while the request was in flight
+  // stay dirty, but only for fields that differ from what we sent.
+  for (const id of data.accepted?.deals ?? []) {
+    const sent = sentDeals.get(id);
+    if (!sent) continue;
+
+    const dealConflicts = conflicts.filter(c => c.deal_id === id);
+    const baseRevision = Math.max(
+      data.accepted.revisions?.[id] ?? 0,
+      ...dealConflicts.map(c => c.server_revision),
+      sent.base_revision ?? 0
+    ) || null;
+
+    // What the server now holds: what we sent, except where it kept its own value
+    const serverCopy = pickDealFields(sent);
+    for (const c of dealConflicts) {
+      Object.assign(serverCopy, { [c.field]: c.server_value });
+    }
+
+    await db.deals.update(id, deal => {
+      const stillChanged = deal.changed_fields.filter(field => !sameFieldValue(deal[field], sent[field]));
+
+      for (const c of dealConflicts) {
+        if (!stillChanged.includes(c.field)) {
+          Object.assign(deal, { [c.field]: c.server_value });
+        }
+      }
+
+      deal.base_revision = baseRevision;
+      deal.server_copy = serverCopy;
+      deal.changed_fields = stillChanged;
+      deal.synced = stillChanged.length === 0;
+    });
+  }
+
+  // Park rejected rows so they stop blocking the rest of the queue
+  const rejectedDeals = (data.rejected?.deals ?? []).filter(r => sentDeals.has(r.id));
+  if (rejectedDeals.length > 0) {
+    await markDealsRejected(rejectedDeals);
+  }
+  const rejectedNotes = (data.rejected?.notes ?? []).filter(r => dirtyNotes.some(n => n.id === r.id));
+  if (rejectedNotes.length > 0) {
+    await markNotesRejected(rejectedNotes);
+  }
+
+  // Acknowledge accepted notes before applying updates, so they take the
+  // server's row: it may have kept another device's manual label over ours
+  const acceptedNoteIds = new Set(data.accepted?.notes ?? []);
+  const acceptedNotes = dirtyNotes.filter(n => acceptedNoteIds.has(n.id));
+  if (acceptedNotes.length > 0) {
+    await markNotesSynced(acceptedNotes);
+  }
 
   // Apply any updates from server (in case other devices made changes)
   await applyServerUpdates(data.updates);
+  cursor = data.cursor;
+  await setSyncCursor(cursor);
 
-  // Mark all local items as synced
-  if (allDeals.length > 0) {
-    await markDealsSynced(allDeals.map(d => d.id));
-  }
-  if (allNotes.length > 0) {
-    await markNotesSynced(allNotes.map(n => n.id));
+  // Feedback is telemetry: once the server has answered, stored or refused, it's done
+  const sentFeedbackIds = new Set(feedback.map(f => f.id));
+  const settledFeedback = [
+    ...(data.accepted?.feedback ?? []),
+    ...(data.rejected?.feedback ?? []).map(r => r.id)
+  ].filter(id => sentFeedbackIds.has(id));
+  if (settledFeedback.length > 0) {
+    await removeFeedback(settledFeedback);
   }
 
-  localStorage.setItem('lastSyncTime', data.serverTime);
+  // Keep pulling until the server has nothing left past our cursor
+  let hasMore = data.hasMore;
+  while (hasMore) {
+    const page = await postSync({ cursor, changes: { deals: [], notes: [] } });
+    countReceived(stats, page);
+    await applyServerUpdates(page.updates);
+    cursor = page.cursor;
+    await setSyncCursor(cursor);
+    hasMore = page.hasMore;
+  }
 }
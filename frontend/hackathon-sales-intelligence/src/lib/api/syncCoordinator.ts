@@ -0,0 +1,217 @@
+import { performSync } from './sync';
+import { subscribeToChanges } from './changes';
+import { runSentimentBackfill } from './sentimentBackfill';
+
+export interface SyncState {
+  isSyncing: boolean;
+  lastSyncTime: Date | null;
+  error: string | null;
+  // Consecutive failed attempts; reset by a successful sync or coming online
+  attempt: number;
+  nextRetryAt: Date | null;
+}
+
+// Messages between tabs. Only the leader sends 'state'; everyone else asks.
+type SyncMessage =
+  | { type: 'state'; state: SyncState }
+  | { type: 'state-request' }
+  | { type: 'sync-request' };
+
+// 'manual': the rep asked (from any tab), the tab came online or just took
+// the lead; it runs right away even with a retry pending. 'background':
+// change events and the reruns they queue, which wait for a pending retry
+// instead of cutting the backoff short.
+type SyncTrigger = 'manual' | 'background';
+
+const LEADER_LOCK = 'deals-sync-leader';
+const CHANNEL_NAME = 'deals-sync';
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+let state: SyncState = {
+  isSyncing: false,
+  lastSyncTime: null,
+  error: null,
+  attempt: 0,
+  nextRetryAt: null
+};
+
+const listeners = new Set<() => void>();
+// Followers waiting for the leader to finish a sync they asked for
+let idleWaiters: (() => void)[] = [];
+
+let channel: BroadcastChannel | null = null;
+let started = false;
+let isLeader = false;
+// Strongest trigger among the requests that arrived mid-sync
+let rerunTrigger: SyncTrigger | null = null;
+let retryTimeout: number | null = null;
+
+// Exponential backoff with equal jitter: the delay is at least half the
+// exponential step, so a failing server isn't hit by every client in lockstep
+function retryDelay(attempt: number): number {
+  const step = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempt - 1));
+  return step / 2 + Math.random() * (step / 2);
+}
+
+function setState(next: SyncState): void {
+  state = next;
+  listeners.forEach(listener => listener());
+
+  if (isLeader) {
+    channel?.postMessage({ type: 'state', state } satisfies SyncMessage);
+  }
+
+  if (!state.isSyncing) {
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+// Runs on the leader only. A request that arrives mid-sync queues one more
+// run so changes made after the upload started still go out; a manual
+// request keeps its right to skip a pending retry.
+async function runLeaderSync(trigger: SyncTrigger): Promise<void> {
+  if (state.isSyncing) {
+    if (rerunTrigger !== 'manual') rerunTrigger = trigger;
+    return new Promise<void>(resolve => idleWaiters.push(resolve));
+  }
+  if (!navigator.onLine) {
+    // Still answer so followers waiting on this request settle
+    setState(state);
+    return;
+  }
+
+  if (retryTimeout) {
+    if (trigger === 'background') return;
+    clearTimeout(retryTimeout);
+    retryTimeout = null;
+  }
+
+  setState({ ...state, isSyncing: true, error: null, nextRetryAt: null });
+
+  try {
+    // Notes saved offline get scored first so the scores go out with this sync
+    await runSentimentBackfill().catch(error => console.error('Sentiment backfill failed:', error));
+    await performSync();
+    setState({
+      isSyncing: false,
+      lastSyncTime: new Date(),
+      error: null,
+      attempt: 0,
+      nextRetryAt: null
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Sync failed';
+    const attempt = state.attempt + 1;
+    const delay = retryDelay(attempt);
+
+    setState({
+      ...state,
+      isSyncing: false,
+      error: errorMessage,
+      attempt,
+      nextRetryAt: new Date(Date.now() + delay)
+    });
+
+    retryTimeout = window.setTimeout(() => {
+      retryTimeout = null;
+      runLeaderSync('background');
+    }, delay);
+  }
+
+  if (rerunTrigger) {
+    const next = rerunTrigger;
+    rerunTrigger = null;
+    await runLeaderSync(next);
+  }
+}
+
+function becomeLeader(): Promise<never> {
+  isLeader = true;
+  setState(state);
+
+  // A new connection is a fresh start, not another step up the backoff
+  window.addEventListener('online', () => {
+    if (!state.isSyncing) setState({ ...state, attempt: 0, nextRetryAt: null });
+    runLeaderSync('manual');
+  });
+  // Pull as soon as another device pushes instead of waiting for the next sync
+  subscribeToChanges(() => runLeaderSync('background'));
+  runLeaderSync('manual');
+
+  // Hold the lock for the life of the tab; closing it hands leadership over
+  return new Promise<never>(() => {});
+}
+
+function handleMessage(event: MessageEvent<SyncMessage>): void {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'state':
+      if (!isLeader) setState(message.state);
+      break;
+    case 'state-request':
+      if (isLeader) setState(state);
+      break;
+    case 'sync-request':
+      if (isLeader) runLeaderSync('manual');
+      break;
+  }
+}
+
+function start(): void {
+  if (started) return;
+  started = true;
+
+  // The service worker may sync while the page is open; reflect that here
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+      if (event.data?.type === 'SYNC_COMPLETE') {
+        setState({ ...state, lastSyncTime: new Date(event.data.time), error: null });
+      }
+    });
+  }
+
+  // Without Web Locks there's no way to elect a leader, so every tab syncs
+  // for itself as before
+  if (!navigator.locks || typeof BroadcastChannel === 'undefined') {
+    becomeLeader();
+    return;
+  }
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.addEventListener('message', handleMessage);
+  channel.postMessage({ type: 'state-request' } satisfies SyncMessage);
+
+  // Queues behind the current leader and takes over when its tab closes
+  navigator.locks.request(LEADER_LOCK, becomeLeader);
+}
+
+export function subscribeToSyncState(listener: () => void): () => void {
+  start();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSyncState(): SyncState {
+  return state;
+}
+
+// Syncs now if this tab leads, otherwise asks the leader to. Resolves once
+// the resulting sync has finished; failures surface through the shared state.
+export function requestSync(): Promise<void> {
+  start();
+
+  if (isLeader) {
+    return runLeaderSync('manual');
+  }
+
+  return new Promise<void>(resolve => {
+    idleWaiters.push(resolve);
+    channel?.postMessage({ type: 'sync-request' } satisfies SyncMessage);
+  });
+}
@@ -0,0 +1,25 @@
+import { db } from './database';
+import { updateDeal } from './deals';
+import type { Deal, DealConflict } from './types';
+
+export async function getConflicts(): Promise<DealConflict[]> {
+  return db.conflicts.orderBy('created_at').toArray();
+}
+
+export async function saveConflicts(conflicts: DealConflict[]): Promise<void> {
+  await db.conflicts.bulkPut(conflicts);
+}
+
+// Keeping the local value re-applies it as a fresh edit on top of the server copy
+export async function resolveConflict(id: string, keep: 'local' | 'server'): Promise<void> {
+  const conflict = await db.conflicts.get(id);
+  if (!conflict) return;
+
+  if (keep === 'local') {
+    await updateDeal(conflict.deal_id, {
+      [conflict.field]: conflict.local_value
+    } as Partial<Deal>);
+  }
+
+  await db.conflicts.delete(id);
+}
@@ -1,9 +1,15 @@
 import Dexie, { type Table } from 'dexie';
-import type { Deal, Note } from './types';
+import { DEAL_FIELDS, type Deal, type Note, type DealConflict, type CachedDealBrief, type MetaEntry, type SentimentFeedback, type SentimentJob, type SyncLogEntry } from './types';
 
 export class DealsDatabase extends Dexie {
   deals!: Table<Deal>;
   notes!: Table<Note>;
+  conflicts!: Table<DealConflict>;
+  meta!: Table<MetaEntry>;
+  syncLog!: Table<SyncLogEntry, number>;
+  sentimentJobs!: Table<SentimentJob>;
+  sentimentFeedback!: Table<SentimentFeedback>;
+  dealBriefs!: Table<CachedDealBrief>;
 
   constructor() {
     super('DealsTracker');
@@ -27,6 +33,119 @@ export class DealsDatabase extends Dexie {
         if (deal.customer_name === undefined) deal.customer_name = null;
       });
     });
+
+    // v4 schema - field-level change tracking and the conflict inbox
+    this.version(4).stores({
+      deals: 'id, status, synced, created_at, updated_at, archived, stage, expected_close_date',
+      notes: 'id, deal_id, synced, created_at',
+      conflicts: 'id, deal_id, created_at'
+    }).upgrade(tx => {
+      // Unsynced deals have no record of what changed, so they upload whole
+      // with no base revision (last-write-wins, as before)
+      return tx.table('deals').toCollection().modify(deal => {
+        if (deal.changed_fields === undefined) deal.changed_fields = deal.synced ? [] : [...DEAL_FIELDS];
+        if (deal.base_revision === undefined) deal.base_revision = deal.synced ? deal.revision ?? null : null;
+      });
+    });
+
+    // v5 schema - sync metadata moves out of localStorage so the service worker can sync
+    this.version(5).stores({
+      deals: 'id, status, synced, created_at, updated_at, archived, stage, expected_close_date',
+      notes: 'id, deal_id, synced, created_at',
+      conflicts: 'id, deal_id, created_at',
+      meta: 'key'
+    }).upgrade(tx => {
+      // The upgrade may run inside the service worker, which has no localStorage
+      const storage = (globalThis as { localStorage?: { getItem(key: string): string | null } }).localStorage;
+      const cursor = storage?.getItem('syncCursor') ?? null;
+      if (cursor) {
+        return tx.table('meta').put({ key: 'syncCursor', value: cursor });
+      }
+    });
+
+    // v6 schema - sync journal for diagnostics
+    this.version(6).stores({
+      deals: 'id, status, synced, created_at, updated_at, archived, stage, expected_close_date',
+      notes: 'id, deal_id, synced, created_at',
+      conflicts: 'id, deal_id, created_at',
+      meta: 'key',
+      syncLog: '++id, started_at'
+    });
+
+    // v7 schema - keep the server-acknowledged copy of each deal next to the local row
+    this.version(7).stores({
+      deals: 'id, status, synced, created_at, updated_at, archived, stage, expected_close_date',
+      notes: 'id, deal_id, synced, created_at',
+      conflicts: 'id, deal_id, created_at',
+      meta: 'key',
+      syncLog: '++id, started_at'
+    }).upgrade(tx => {
+      // A synced deal matches the server. For unsynced ones the old values are
+      // already overwritten, so server_copy stays unset rather than guessed.
+      return tx.table('deals').toCollection().modify(deal => {
+        if (deal.synced) {
+          deal.server_copy = Object.fromEntries(DEAL_FIELDS.map(field => [field, deal[field]]));
+        } else if (deal.base_revision === null && deal.revision === undefined) {
+          deal.server_copy = null;
+        }
+      });
+    });
+
+    // v8 schema - sentiment backfill queue for notes written offline
+    this.version(8).stores({
+      deals: 'id, status, synced, created_at, updated_at, archived, stage, expected_close_date',
+      notes: 'id, deal_id, synced, created_at',
+      conflicts: 'id, deal_id, created_at',
+      meta: 'key',
+      syncLog: '++id, started_at',
+      sentimentJobs: 'note_id, next_attempt_at'
+    }).upgrade(async tx => {
+      const unscored = await tx.table('notes').filter(note => note.sentiment_label === null).toArray();
+      const now = new Date();
+      await tx.table('sentimentJobs').bulkPut(unscored.map(note => ({
+        note_id: note.id,
+        attempts: 0,
+        next_attempt_at: now,
+        last_error: null
+      })));
+    });
+
+    // v9 schema - 'server' sentiment splits into 'model' and 'fallback'; older scores count as model
+    this.version(9).stores({
+      deals: 'id, status, synced, created_at, updated_at, archived, stage, expected_close_date',
+      notes: 'id, deal_id, synced, created_at',
+      conflicts: 'id, deal_id, created_at',
+      meta: 'key',
+      syncLog: '++id, started_at',
+      sentimentJobs: 'note_id, next_attempt_at'
+    }).upgrade(tx => {
+      return tx.table('notes').toCollection().modify(note => {
+        if (note.sentiment_source === 'server') note.sentiment_source = 'model';
+      });
+    });
+
+    // v10 schema - outbox for reps' sentiment corrections
+    this.version(10).stores({
+      deals: 'id, status, synced, created_at, updated_at, archived, stage, expected_close_date',
+      notes: 'id, deal_id, synced, created_at',
+      conflicts: 'id, deal_id, created_at',
+      meta: 'key',
+      syncLog: '++id, started_at',
+      sentimentJobs: 'note_id, next_attempt_at',
+      sentimentFeedback: 'id, note_id, created_at'
+    });
+
+    // v11 schema - cached deal briefs
+    this.version(11).stores({
+      deals: 'id, status, synced, created_at, updated_at, archived, stage, expected_close_date',
+      notes: 'id, deal_id, synced, created_at',
+      conflicts: 'id, deal_id, created_at',
+      meta: 'key',
+      syncLog: '++id, started_at',
+      sentimentJobs: 'note_id, next_attempt_at',
+      sentimentFeedback: 'id, note_id, created_at',
+      dealBriefs: 'deal_id'
+    });
   }
 }
 
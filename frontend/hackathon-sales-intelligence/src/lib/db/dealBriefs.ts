@@ -0,0 +1,24 @@
+import { db } from './database';
+import type { CachedDealBrief, Note } from './types';
+
+// What a brief written from these notes (oldest first) covers
+export function briefCoverage(notes: Note[]): Pick<CachedDealBrief, 'note_count' | 'latest_note_id'> {
+  return { note_count: notes.length, latest_note_id: notes.at(-1)?.id ?? null };
+}
+
+// Returns the cached brief only while it still covers exactly the deal's notes
+export async function getDealBrief(dealId: string): Promise<CachedDealBrief | undefined> {
+  const [cached, notes] = await Promise.all([
+    db.dealBriefs.get(dealId),
+    db.notes.where('deal_id').equals(dealId).sortBy('created_at')
+  ]);
+  if (!cached) return undefined;
+  const current = briefCoverage(notes);
+  return cached.note_count === current.note_count && cached.latest_note_id === current.latest_note_id
+    ? cached
+    : undefined;
+}
+
+export async function saveDealBrief(entry: CachedDealBrief): Promise<void> {
+  await db.dealBriefs.put(entry);
+}
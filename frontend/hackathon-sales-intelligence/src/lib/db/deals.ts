@@ -1,5 +1,6 @@
 import { db } from './database';
-import type { Deal, DealStage } from './types';
+import { requestBackgroundSync } from '../api/backgroundSync';
+import { DEAL_FIELDS, type Deal, type DealField, type DealServerCopy, type DealStage, type SentimentAspect } from './types';
 
 interface AddDealOptions {
   name: string;
@@ -17,6 +18,7 @@ export async function addDeal(options: AddDealOptions): Promise<Deal> {
     value: options.value,
     status: 'open',
     loss_reason: null,
+    suggested_loss_reason: null,
     created_at: now,
     updated_at: now,
     synced: false,
@@ -24,11 +26,15 @@ export async function addDeal(options: AddDealOptions): Promise<Deal> {
     archived: false,
     expected_close_date: options.expected_close_date ?? null,
     customer_name: options.customer_name ?? null,
-    stage: options.stage ?? 'prospect'
+    stage: options.stage ?? 'prospect',
+    changed_fields: [],
+    base_revision: null,
+    server_copy: null
   };
   try {
     await db.deals.add(deal);
     console.log('Deal added to IndexedDB:', deal.id);
+    requestBackgroundSync();
     return deal;
   } catch (error) {
     console.error('Failed to add deal to IndexedDB:', error);
@@ -36,12 +42,38 @@ export async function addDeal(options: AddDealOptions): Promise<Deal> {
   }
 }
 
+// Dates may be Date objects locally or ISO strings from the server
+export function sameFieldValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    if (!a || !b) return a === b;
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  return a === b;
+}
+
+export function pickDealFields(deal: Pick<Deal, DealField>): DealServerCopy {
+  return Object.fromEntries(DEAL_FIELDS.map(field => [field, deal[field]])) as DealServerCopy;
+}
+
 export async function updateDeal(id: string, updates: Partial<Deal>): Promise<void> {
-  await db.deals.update(id, {
-    ...updates,
-    updated_at: new Date(),
-    synced: false
+  await db.deals.update(id, deal => {
+    // Track which fields actually changed so sync can merge field-by-field
+    const changed = new Set<DealField>(deal.changed_fields ?? []);
+    for (const field of DEAL_FIELDS) {
+      if (field in updates && !sameFieldValue(updates[field], deal[field])) {
+        changed.add(field);
+      }
+    }
+
+    // Editing a rejected deal may have fixed it, so give it another try
+    Object.assign(deal, updates, {
+      updated_at: new Date(),
+      synced: false,
+      changed_fields: [...changed],
+      sync_error: null
+    });
   });
+  requestBackgroundSync();
 }
 
 export async function getDeals(includeArchived = false): Promise<Deal[]> {
@@ -58,12 +90,62 @@ export async function getDeal(id: string): Promise<Deal | undefined> {
   return db.deals.get(id);
 }
 
+// Booleans aren't valid IndexedDB keys, so the synced index can't be queried directly.
+// Rejected deals are left out until they're edited or retried.
 export async function getUnsyncedDeals(): Promise<Deal[]> {
-  return db.deals.where('synced').equals(0).toArray();
+  return db.deals.filter(d => !d.synced && !d.sync_error).toArray();
+}
+
+export async function getRejectedDeals(): Promise<Deal[]> {
+  return db.deals.filter(d => !d.synced && !!d.sync_error).toArray();
+}
+
+export async function markDealsRejected(rejections: { id: string; reason: string }[]): Promise<void> {
+  for (const { id, reason } of rejections) {
+    await db.deals.update(id, { sync_error: reason });
+  }
+}
+
+export async function retryRejectedDeal(id: string): Promise<void> {
+  await db.deals.update(id, { sync_error: null });
+}
+
+// Every deal not yet acknowledged by the server, rejected ones included
+export async function getPendingDeals(): Promise<Deal[]> {
+  return db.deals.filter(d => !d.synced).toArray();
+}
+
+// Throws away unsynced edits and puts back the server-acknowledged values.
+// A deal the server has never seen is removed along with its notes.
+export async function discardLocalDealChanges(id: string): Promise<void> {
+  await db.transaction('rw', db.deals, db.notes, db.conflicts, db.dealBriefs, async () => {
+    const deal = await db.deals.get(id);
+    if (!deal || deal.synced) return;
+
+    if (deal.server_copy === undefined) {
+      throw new Error('No server copy recorded for this deal');
+    }
+
+    await db.conflicts.where('deal_id').equals(id).delete();
+
+    if (deal.server_copy === null) {
+      await db.notes.where('deal_id').equals(id).delete();
+      await db.dealBriefs.delete(id);
+      await db.deals.delete(id);
+      return;
+    }
+
+    await db.deals.update(id, {
+      ...deal.server_copy,
+      changed_fields: [],
+      synced: true,
+      sync_error: null
+    });
+  });
 }
 
 export async function markDealsSynced(ids: string[]): Promise<void> {
-  await db.deals.where('id').anyOf(ids).modify({ synced: true });
+  await db.deals.where('id').anyOf(ids).modify({ synced: true, changed_fields: [] });
 }
 
 export async function getOpenDeals(): Promise<Deal[]> {
@@ -157,6 +239,37 @@ export async function getLossStats(): Promise<LossStats> {
   };
 }
 
+export interface AspectRiskStats {
+  byAspect: Record<SentimentAspect, { count: number; value: number }>;
+}
+
+// Open deals whose most recent note on a topic is negative about it: the
+// loss reasons in the making
+export async function getAspectRiskStats(): Promise<AspectRiskStats> {
+  const openDeals = await getOpenDeals();
+
+  const byAspect: AspectRiskStats['byAspect'] = {
+    price: { count: 0, value: 0 },
+    timing: { count: 0, value: 0 },
+    competitor: { count: 0, value: 0 },
+    fit: { count: 0, value: 0 }
+  };
+
+  for (const deal of openDeals) {
+    const notes = await db.notes.where('deal_id').equals(deal.id).reverse().sortBy('created_at');
+
+    for (const aspect of Object.keys(byAspect) as SentimentAspect[]) {
+      const latest = notes.find(note => note.sentiment_aspects?.[aspect]);
+      if (latest?.sentiment_aspects?.[aspect] === 'negative') {
+        byAspect[aspect].count++;
+        byAspect[aspect].value += deal.value;
+      }
+    }
+  }
+
+  return { byAspect };
+}
+
 export interface WinLossRatio {
   won: number;
   lost: number;
@@ -0,0 +1,13 @@
+import { db } from './database';
+import type { SentimentFeedback } from './types';
+
+// Everything in the table is waiting to upload
+export async function getPendingFeedback(): Promise<SentimentFeedback[]> {
+  return db.sentimentFeedback.orderBy('created_at').toArray();
+}
+
+// Called once the server has stored (or refused) the corrections; the server
+// copy is the record
+export async function removeFeedback(ids: string[]): Promise<void> {
+  await db.sentimentFeedback.bulkDelete(ids);
+}
@@ -1,5 +1,11 @@
 export { db } from './database';
-export type { Deal, Note, DealStage } from './types';
-export { STAGE_INFO } from './types';
+export type { Deal, DealBrief, CachedDealBrief, Note, NoteSentiment, SentimentAspect, SentimentAspects, SentimentFeedback, DealStage, DealField, DealConflict, DealServerCopy, SentimentJob, SyncLogEntry } from './types';
+export { STAGE_INFO, DEAL_FIELDS } from './types';
 export * from './deals';
 export * from './notes';
+export * from './conflicts';
+export * from './meta';
+export * from './syncLog';
+export * from './sentimentJobs';
+export * from './feedback';
+export * from './dealBriefs';
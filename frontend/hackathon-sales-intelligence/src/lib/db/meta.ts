@@ -0,0 +1,16 @@
+import { db } from './database';
+
+const SYNC_CURSOR_KEY = 'syncCursor';
+
+export async function getSyncCursor(): Promise<string | null> {
+  const entry = await db.meta.get(SYNC_CURSOR_KEY);
+  return entry?.value ?? null;
+}
+
+export async function setSyncCursor(cursor: string | null): Promise<void> {
+  if (cursor) {
+    await db.meta.put({ key: SYNC_CURSOR_KEY, value: cursor });
+  } else {
+    await db.meta.delete(SYNC_CURSOR_KEY);
+  }
+}
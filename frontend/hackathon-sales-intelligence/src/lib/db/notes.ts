@@ -1,25 +1,86 @@
 import { db } from './database';
-import type { Note } from './types';
+import { requestBackgroundSync } from '../api/backgroundSync';
+import { needsModelScore, queueSentimentJob } from './sentimentJobs';
+import type { Note, NoteSentiment } from './types';
 
 export async function addNote(
   deal_id: string,
   content: string,
-  sentiment_score: number | null = null,
-  sentiment_label: 'positive' | 'neutral' | 'negative' | null = null
+  sentiment: NoteSentiment | null = null
 ): Promise<Note> {
   const note: Note = {
     id: crypto.randomUUID(),
     deal_id,
     content,
-    sentiment_score,
-    sentiment_label,
+    sentiment_score: sentiment?.sentiment_score ?? null,
+    sentiment_label: sentiment?.sentiment_label ?? null,
+    sentiment_source: sentiment?.sentiment_source ?? null,
+    sentiment_confidence: sentiment?.sentiment_confidence ?? null,
+    sentiment_model: sentiment?.sentiment_model ?? null,
+    sentiment_model_version: sentiment?.sentiment_model_version ?? null,
+    sentiment_aspects: sentiment?.sentiment_aspects ?? null,
     created_at: new Date(),
     synced: false
   };
-  await db.notes.add(note);
+  await db.transaction('rw', db.notes, db.sentimentJobs, db.dealBriefs, async () => {
+    await db.notes.add(note);
+    // The deal's brief no longer covers everything
+    await db.dealBriefs.delete(deal_id);
+    // Analysis failed, we're offline or the server's model was down; get a model score later
+    if (needsModelScore(note)) {
+      await queueSentimentJob(note.id);
+    }
+  });
+  requestBackgroundSync();
   return note;
 }
 
+// Representative score for a rep-chosen label, on the same scale as the models
+const MANUAL_SCORES: Record<NonNullable<Note['sentiment_label']>, number> = {
+  positive: 0.6,
+  neutral: 0,
+  negative: -0.6
+};
+
+// A rep's label replaces the score for good: re-analysis skips manual notes.
+// The correction is also queued as feedback for measuring provider accuracy.
+export async function overrideNoteSentiment(
+  id: string,
+  label: NonNullable<Note['sentiment_label']>
+): Promise<void> {
+  await db.transaction('rw', db.notes, db.sentimentJobs, db.sentimentFeedback, async () => {
+    const note = await db.notes.get(id);
+    if (!note) return;
+    if (note.sentiment_source === 'manual' && note.sentiment_label === label) return;
+
+    await db.sentimentFeedback.add({
+      id: crypto.randomUUID(),
+      note_id: id,
+      original_label: note.sentiment_label,
+      original_score: note.sentiment_score,
+      original_source: note.sentiment_source ?? null,
+      original_model: note.sentiment_model ?? null,
+      original_model_version: note.sentiment_model_version ?? null,
+      corrected_label: label,
+      created_at: new Date()
+    });
+
+    await db.notes.update(id, {
+      sentiment_score: MANUAL_SCORES[label],
+      sentiment_label: label,
+      sentiment_source: 'manual',
+      sentiment_confidence: 1,
+      sentiment_model: null,
+      sentiment_model_version: null,
+      sentiment_only: note.synced || !!note.sentiment_only,
+      synced: false,
+      sync_error: null
+    });
+    await db.sentimentJobs.delete(id);
+  });
+  requestBackgroundSync();
+}
+
 export async function getNotesByDeal(deal_id: string): Promise<Note[]> {
   return db.notes.where('deal_id').equals(deal_id).sortBy('created_at');
 }
@@ -34,9 +95,95 @@ export async function getLatestNoteByDeal(deal_id: string): Promise<Note | undef
 }
 
 export async function getUnsyncedNotes(): Promise<Note[]> {
-  return db.notes.where('synced').equals(0).toArray();
+  return db.notes.filter(n => !n.synced && !n.sync_error).toArray();
+}
+
+export async function getRejectedNotes(): Promise<Note[]> {
+  return db.notes.filter(n => !n.synced && !!n.sync_error).toArray();
+}
+
+export async function markNotesRejected(rejections: { id: string; reason: string }[]): Promise<void> {
+  for (const { id, reason } of rejections) {
+    await db.notes.update(id, { sync_error: reason });
+  }
+}
+
+export async function retryRejectedNote(id: string): Promise<void> {
+  await db.notes.update(id, { sync_error: null });
+}
+
+// An unsynced note is either new or a synced note waiting to upload a new
+// score (backfilled or a manual label; see sentiment_only). Its content is
+// never edited. Discarding deletes a new note or takes back a manual label;
+// synced notes are deleted through the API.
+export async function getPendingNotes(): Promise<Note[]> {
+  return db.notes.filter(n => !n.synced).toArray();
+}
+
+export async function discardLocalNote(id: string): Promise<void> {
+  await db.transaction('rw', db.notes, db.sentimentJobs, db.sentimentFeedback, db.dealBriefs, async () => {
+    const note = await db.notes.get(id);
+    if (!note) return;
+    await db.notes.delete(id);
+    await db.sentimentJobs.delete(id);
+    await db.sentimentFeedback.where('note_id').equals(id).delete();
+    // The brief may quote the note
+    await db.dealBriefs.delete(note.deal_id);
+  });
+}
+
+// Puts back the sentiment the server acknowledged and drops the correction
+// queued with the manual label
+export async function discardSentimentOverride(id: string): Promise<void> {
+  await db.transaction('rw', db.notes, db.sentimentJobs, db.sentimentFeedback, async () => {
+    const note = await db.notes.get(id);
+    if (!note || note.sentiment_source !== 'manual' || !note.server_sentiment) return;
+
+    const restored = note.server_sentiment;
+    await db.notes.update(id, {
+      ...restored,
+      synced: true,
+      sentiment_only: false,
+      sync_error: null
+    });
+    await db.sentimentFeedback.where('note_id').equals(id).delete();
+    // Same as a new note: a score that isn't the model's still wants one
+    if (needsModelScore(restored)) {
+      await queueSentimentJob(id);
+    }
+  });
+}
+
+const SENTIMENT_FIELDS = [
+  'sentiment_score',
+  'sentiment_label',
+  'sentiment_source',
+  'sentiment_confidence',
+  'sentiment_model',
+  'sentiment_model_version'
+] as const;
+
+export function pickNoteSentiment(note: Note): NoteSentiment {
+  return {
+    ...Object.fromEntries(SENTIMENT_FIELDS.map(field => [field, note[field] ?? null])),
+    sentiment_aspects: note.sentiment_aspects ?? null
+  } as NoteSentiment;
+}
+
+function sameSentiment(a: Note, b: Note): boolean {
+  return SENTIMENT_FIELDS.every(field => (a[field] ?? null) === (b[field] ?? null)) &&
+    JSON.stringify(a.sentiment_aspects ?? null) === JSON.stringify(b.sentiment_aspects ?? null);
 }
 
-export async function markNotesSynced(ids: string[]): Promise<void> {
-  await db.notes.where('id').anyOf(ids).modify({ synced: true });
+// sent is what the accepted notes looked like when uploaded. A note whose
+// sentiment changed while the request was in flight (a backfill finished, or
+// the rep overrode the label) stays unsynced so the new score uploads next time.
+export async function markNotesSynced(sent: Note[]): Promise<void> {
+  const sentById = new Map(sent.map(note => [note.id, note]));
+  await db.notes.where('id').anyOf([...sentById.keys()]).modify(note => {
+    if (!sameSentiment(note, sentById.get(note.id)!)) return;
+    note.synced = true;
+    note.sentiment_only = false;
+    note.server_sentiment = pickNoteSentiment(note);
+  });
 }
@@ -0,0 +1,75 @@
+import { db } from './database';
+import type { Note, NoteSentiment, SentimentJob } from './types';
+
+const RETRY_BASE_DELAY = 60 * 1000;
+const RETRY_MAX_DELAY = 6 * 60 * 60 * 1000;
+// A note the server keeps scoring with its fallback stops asking after this
+// many tries (about two days at the longest delay)
+const MAX_FALLBACK_ATTEMPTS = 15;
+
+// Unscored, or scored only by a lexicon (on this device, or the server's
+// fallback while its model was down)
+export function needsModelScore(note: Pick<Note, 'sentiment_label' | 'sentiment_source'>): boolean {
+  return note.sentiment_label === null || note.sentiment_source === 'local' || note.sentiment_source === 'fallback';
+}
+
+function backOff(job: SentimentJob, error: string, now: number): void {
+  job.attempts += 1;
+  job.next_attempt_at = new Date(now + Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (job.attempts - 1)));
+  job.last_error = error;
+}
+
+export async function queueSentimentJob(noteId: string): Promise<void> {
+  await db.sentimentJobs.put({
+    note_id: noteId,
+    attempts: 0,
+    next_attempt_at: new Date(),
+    last_error: null
+  });
+}
+
+export async function getDueSentimentJobs(limit: number): Promise<SentimentJob[]> {
+  return db.sentimentJobs
+    .where('next_attempt_at')
+    .belowOrEqual(new Date())
+    .limit(limit)
+    .toArray();
+}
+
+// Writes the score back and marks the note unsynced so the next sync uploads
+// it. A fallback score is kept, but the job stays queued with backoff so the
+// model gets another try once it's back.
+export async function completeSentimentJob(
+  noteId: string,
+  sentiment: NoteSentiment
+): Promise<void> {
+  const isFallback = sentiment.sentiment_source === 'fallback';
+  await db.transaction('rw', db.notes, db.sentimentJobs, async () => {
+    await db.notes.update(noteId, note => {
+      // A rep's label always wins over re-analysis
+      if (note.sentiment_source === 'manual') return;
+      // Another fallback score is no news
+      if (isFallback && note.sentiment_source === 'fallback') return;
+      // The server may already have this note; if so only the score is new
+      note.sentiment_only = note.synced || !!note.sentiment_only;
+      Object.assign(note, sentiment, { synced: false, sync_error: null });
+    });
+
+    const job = isFallback ? await db.sentimentJobs.get(noteId) : undefined;
+    if (!job || job.attempts + 1 >= MAX_FALLBACK_ATTEMPTS) {
+      await db.sentimentJobs.delete(noteId);
+      return;
+    }
+    backOff(job, 'Scored by the server fallback; model unavailable', Date.now());
+    await db.sentimentJobs.put(job);
+  });
+}
+
+export async function failSentimentJobs(noteIds: string[], error: string): Promise<void> {
+  const now = Date.now();
+  await db.sentimentJobs.where('note_id').anyOf(noteIds).modify(job => backOff(job, error, now));
+}
+
+export async function removeSentimentJobs(noteIds: string[]): Promise<void> {
+  await db.sentimentJobs.bulkDelete(noteIds);
+}
@@ -0,0 +1,26 @@
+import { db } from './database';
+import type { SyncLogEntry } from './types';
+
+// Enough history to cover a few days of regular syncing
+const MAX_SYNC_LOG_ENTRIES = 200;
+
+export async function addSyncLogEntry(entry: Omit<SyncLogEntry, 'id'>): Promise<void> {
+  await db.transaction('rw', db.syncLog, async () => {
+    await db.syncLog.add(entry);
+
+    const excess = (await db.syncLog.count()) - MAX_SYNC_LOG_ENTRIES;
+    if (excess > 0) {
+      const oldestIds = await db.syncLog.orderBy('id').limit(excess).primaryKeys();
+      await db.syncLog.bulkDelete(oldestIds);
+    }
+  });
+}
+
+// Newest first
+export async function getSyncLog(): Promise<SyncLogEntry[]> {
+  return db.syncLog.orderBy('id').reverse().toArray();
+}
+
+export async function clearSyncLog(): Promise<void> {
+  await db.syncLog.clear();
+}
@@ -1,5 +1,22 @@
+import type { SentimentAspect, SentimentAspects } from '../../../../../shared/lexicon';
+
 export type DealStage = 'prospect' | 'qualified' | 'proposal' | 'negotiation' | 'closing';
 
+// Deal fields that sync field-by-field (everything a rep can edit)
+export const DEAL_FIELDS = [
+  'name',
+  'value',
+  'status',
+  'loss_reason',
+  'archived',
+  'expected_close_date',
+  'customer_name',
+  'stage',
+  'suggested_loss_reason'
+] as const;
+
+export type DealField = typeof DEAL_FIELDS[number];
+
 export interface Deal {
   id: string;
   name: string;
@@ -14,16 +31,128 @@ export interface Deal {
   expected_close_date: Date | null;
   customer_name: string | null;
   stage: DealStage;
+  // Reason the app suggested when the deal was marked lost (missing on older deals)
+  suggested_loss_reason?: string | null;
+  // Field-level sync tracking
+  changed_fields: DealField[];     // Fields edited locally since the last acknowledged sync
+  base_revision: number | null;    // Server revision the local edits are based on
+  revision?: number;               // Present on rows received from the server
+  sync_error?: string | null;      // Set when the server rejected the upload (dead-lettered)
+  // Field values as last acknowledged by the server, for diffing and discarding local edits.
+  // null: the server has never seen this deal. Missing: not recorded (deals edited before v7).
+  server_copy?: DealServerCopy | null;
 }
 
+export type DealServerCopy = Pick<Deal, DealField>;
+
+// Topics a note can be about, matching the loss reasons in LossReasonModal,
+// and the polarity per topic the note mentions. Defined with the lexicon the
+// server and this app share.
+export type { SentimentAspect, SentimentAspects };
+
 export interface Note {
   id: string;
   deal_id: string;
   content: string;
   sentiment_score: number | null;
   sentiment_label: 'positive' | 'neutral' | 'negative' | null;
+  // model: the server's configured provider. fallback: the server's lexicon after a provider failure.
+  // local: on-device lexicon, replaced once the server scores the note. manual: set by the rep.
+  sentiment_source?: 'model' | 'fallback' | 'local' | 'manual' | null;
+  sentiment_confidence?: number | null;     // 0-1, null when the model didn't say
+  sentiment_model?: string | null;          // ID of the model that produced the score
+  sentiment_model_version?: string | null;  // Exact version the model reported
+  sentiment_aspects?: SentimentAspects | null;
   created_at: Date;
   synced: boolean;
+  sync_error?: string | null;      // Set when the server rejected the upload (dead-lettered)
+  sentiment_only?: boolean;        // Unsynced only because a new score (backfilled or manual) is waiting to upload
+  // Sentiment the server last acknowledged; absent on notes it has never seen
+  server_sentiment?: NoteSentiment;
+}
+
+// A local edit that collided with a concurrent edit of the same field on another device
+export interface DealConflict {
+  id: string;              // `${deal_id}:${field}`, so a newer conflict replaces an older one
+  deal_id: string;
+  field: DealField;
+  local_value: unknown;
+  server_value: unknown;
+  server_revision: number;
+  created_at: Date;
+}
+
+// Small key-value store for sync bookkeeping (readable from the service worker,
+// unlike localStorage)
+export interface MetaEntry {
+  key: string;
+  value: string;
+}
+
+// Score, label and provenance of a note's sentiment
+export type NoteSentiment = Pick<
+  Note,
+  | 'sentiment_score' | 'sentiment_label' | 'sentiment_source' | 'sentiment_confidence'
+  | 'sentiment_model' | 'sentiment_model_version' | 'sentiment_aspects'
+>;
+
+// A rep's correction of a note's sentiment, queued for upload. Rows are
+// removed once the server has them.
+export interface SentimentFeedback {
+  id: string;
+  note_id: string;
+  original_label: Note['sentiment_label'];
+  original_score: number | null;
+  original_source: Note['sentiment_source'];
+  original_model: string | null;
+  original_model_version: string | null;
+  corrected_label: 'positive' | 'neutral' | 'negative';
+  created_at: Date;
+}
+
+// Meeting-prep summary of a deal, as returned by /api/brief
+export interface DealBrief {
+  standing: string;
+  sentiment_trend: string;
+  objections: string[];
+  next_step: string;
+}
+
+// The last brief generated for a deal. Dropped when a note is added here or
+// the deal is deleted; note_count and latest_note_id catch notes that arrived
+// from or were deleted on other devices.
+export interface CachedDealBrief {
+  deal_id: string;
+  brief: DealBrief;
+  source: 'model' | 'fallback';
+  model: string;
+  note_count: number;
+  // Newest note the brief was written from, null for a deal without notes
+  latest_note_id: string | null;
+  generated_at: Date;
+}
+
+// A note saved without sentiment, waiting to be analyzed once the API is reachable
+export interface SentimentJob {
+  note_id: string;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+}
+
+// One sync run, kept so support can see what a device actually exchanged
+export interface SyncLogEntry {
+  id?: number;
+  started_at: Date;
+  duration_ms: number;
+  source: 'app' | 'background';
+  sent: { deals: number; notes: number };
+  received: { deals: number; notes: number; tombstones: number };
+  rejected: number;
+  conflicts: number;
+  // Server clock at the last response; null if the server was never reached
+  server_time: string | null;
+  error: string | null;
 }
 
 // Stage display info
@@ -0,0 +1,16 @@
+import type { SentimentResult } from '../api/sentiment';
+import { analyzeLexicon } from '../../../../../shared/lexicon';
+
+// Provisional offline sentiment, used until the server scores the note. Same
+// analyzer the server falls back to.
+
+// Same model ID as the server's lexicon provider
+const PROVENANCE = {
+  source: 'local',
+  model: 'sales-lexicon-v1',
+  model_version: 'sales-lexicon-v1'
+} as const;
+
+export function analyzeSentimentLocally(text: string): SentimentResult {
+  return { ...analyzeLexicon(text), ...PROVENANCE };
+}
@@ -0,0 +1,21 @@
+import type { Note } from '../db';
+import type { LossReasonResult } from '../api/lossReason';
+import { analyzeLexicon } from '../../../../../shared/lexicon';
+import { suggestLossReasonFromAspects } from '../../../../../shared/lossReasonRules';
+
+// Offline loss reason from the same keyword rules the server falls back to.
+// notes are newest first.
+export function suggestLossReasonLocally(notes: Note[]): LossReasonResult {
+  return {
+    suggestion: suggestLossReasonFromAspects(
+      notes.map(note => ({
+        text: note.content,
+        // Stored aspects came from the server's model when it was reachable
+        aspects: note.sentiment_aspects ?? analyzeLexicon(note.content).aspects
+      }))
+    ),
+    source: 'local',
+    model: 'sales-lexicon-v1',
+    model_version: 'sales-lexicon-v1'
+  };
+}
@@ -1,3 +1,5 @@
+import { STAGE_INFO, type DealField, type DealStage } from '../db/types';
+
 export function formatCurrency(value: number): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -30,3 +32,32 @@ export function formatRelativeTime(date: Date): string {
 
   return date.toLocaleDateString();
 }
+
+export const DEAL_FIELD_LABELS: Record<DealField, string> = {
+  name: 'Name',
+  value: 'Value',
+  status: 'Status',
+  loss_reason: 'Loss reason',
+  archived: 'Archived',
+  expected_close_date: 'Expected close',
+  customer_name: 'Customer',
+  stage: 'Stage',
+  suggested_loss_reason: 'Suggested loss reason'
+};
+
+export function formatDealFieldValue(field: DealField, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+
+  switch (field) {
+    case 'value':
+      return formatCurrency(Number(value));
+    case 'expected_close_date':
+      return new Date(value as string).toLocaleDateString();
+    case 'archived':
+      return value ? 'Yes' : 'No';
+    case 'stage':
+      return STAGE_INFO[value as DealStage]?.label ?? String(value);
+    default:
+      return String(value);
+  }
+}
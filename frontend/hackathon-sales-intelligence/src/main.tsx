@@ -5,6 +5,7 @@ import App from './App.tsx'
 import { ToastProvider } from './components/Toast.tsx'
 import { ErrorBoundary } from './components/ErrorBoundary.tsx'
 import { OfflineIndicator } from './components/OfflineIndicator.tsx'
+import { UpdatePrompt } from './components/UpdatePrompt.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -12,6 +13,7 @@ createRoot(document.getElementById('root')!).render(
       <ToastProvider>
         <OfflineIndicator />
         <App />
+        <UpdatePrompt />
       </ToastProvider>
     </ErrorBoundary>
   </StrictMode>,
@@ -0,0 +1,62 @@
+/// <reference lib="webworker" />
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { clientsClaim, setCacheNameDetails } from 'workbox-core';
+import { performSync } from './lib/api/sync';
+import { SYNC_TAG } from './lib/api/backgroundSync';
+
+declare let self: ServiceWorkerGlobalScope;
+
+// Background Sync / Periodic Background Sync events aren't in the TypeScript WebWorker lib yet
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+// Precache entries are revisioned by content hash; bump the suffix to force a clean cache
+setCacheNameDetails({ prefix: 'deals-tracker', suffix: 'v1' });
+
+// App shell and built assets, injected at build time by vite-plugin-pwa
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// Serve the cached shell for client-side navigations so a cold start works offline.
+// /api/* is never routed here or cached anywhere: sync must always hit the network.
+registerRoute(
+  new NavigationRoute(createHandlerBoundToURL('index.html'), {
+    denylist: [/^\/api\//]
+  })
+);
+
+// The page asks the waiting worker to take over once the rep accepts the update prompt
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// Same push/pull protocol as the page. A rejected promise tells the browser to
+// retry the one-off sync later with its own backoff.
+async function syncInBackground(): Promise<void> {
+  await performSync('background');
+
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const client of clients) {
+    client.postMessage({ type: 'SYNC_COMPLETE', time: new Date().toISOString() });
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag === SYNC_TAG) {
+    syncEvent.waitUntil(syncInBackground());
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag === SYNC_TAG) {
+    syncEvent.waitUntil(syncInBackground());
+  }
+});
+
+clientsClaim();
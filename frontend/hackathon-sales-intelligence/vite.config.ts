@@ -1,8 +1,42 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [
+    react(),
+    tailwindcss(),
+    VitePWA({
+      // Custom worker in src/sw.ts; the plugin only injects the precache manifest
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
+      // Registered from UpdatePrompt so the rep decides when to reload
+      registerType: 'prompt',
+      injectRegister: false,
+      injectManifest: {
+        globPatterns: ['**/*.{js,css,html,svg,png,ico,webmanifest}']
+      },
+      manifest: {
+        name: 'Sales Deal Tracker',
+        short_name: 'Deals',
+        description: 'Track sales deals, analyze sentiment, and understand why you\'re losing deals.',
+        theme_color: '#2563eb',
+        background_color: '#f3f4f6',
+        display: 'standalone',
+        start_url: '/',
+        icons: [
+          { src: 'vite.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' }
+        ]
+      }
+    })
+  ],
+  server: {
+    // The lexicon in /shared is imported from outside this app
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), '../../shared']
+    }
+  },
 })
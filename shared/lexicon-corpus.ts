@@ -0,0 +1,53 @@
+import type { LexiconResult } from './lexicon';
+
+// Labelled sales notes for checking changes to the lexicon analyzer. Labels
+// are what a rep would call the note, not what the current analyzer says.
+// Where aspects are given, they must match exactly. `npm test` in api/ checks
+// the analyzer against it, as the server and the client call it.
+export const LEXICON_CORPUS: { text: string; label: LexiconResult['label']; aspects?: LexiconResult['aspects'] }[] = [
+  // Positive
+  { text: 'Great call, they are very excited to sign next week', label: 'positive' },
+  { text: 'We beat the competitor on the technical review', label: 'positive', aspects: { competitor: 'positive' } },
+  { text: 'CFO approved the budget, contract going out Monday', label: 'positive' },
+  { text: 'Champion is keen to expand to two more teams', label: 'positive' },
+  { text: 'Demo went really well, they loved the reporting', label: 'positive' },
+  { text: 'No concerns from legal, signed the MSA', label: 'positive' },
+  { text: 'They are replacing the incumbent with us', label: 'positive', aspects: { competitor: 'positive' } },
+  { text: 'Pilot results were excellent, renewal looks confident', label: 'positive' },
+  { text: 'Resolved their security concerns, procurement is ready', label: 'positive' },
+  { text: 'Not a problem for them to move the start date up', label: 'positive' },
+  { text: 'Happy with the pricing and impressed by onboarding', label: 'positive', aspects: { price: 'positive' } },
+  { text: 'Verbal yes from the VP, paperwork in progress', label: 'positive' },
+
+  // Neutral
+  { text: 'Meeting scheduled for Tuesday at 10', label: 'neutral' },
+  { text: 'Sent the proposal, waiting to hear back', label: 'neutral' },
+  { text: 'Now we know who owns the budget', label: 'neutral' },
+  { text: 'Discussed the deal structure and payment terms', label: 'neutral' },
+  { text: 'Follow up with procurement about the price list', label: 'neutral' },
+  { text: 'They asked for a copy of our SOC 2 report', label: 'neutral' },
+  { text: 'Intro call with the new head of ops', label: 'neutral' },
+  { text: 'Need to confirm the number of seats', label: 'neutral' },
+
+  // Negative
+  { text: 'Budget frozen, they went with a competitor', label: 'negative' },
+  { text: 'Not happy with the pricing, too expensive', label: 'negative', aspects: { price: 'negative' } },
+  { text: 'Project postponed until next year after layoffs', label: 'negative' },
+  { text: 'Champion left and the new contact is unresponsive', label: 'negative' },
+  { text: 'They are worried about the migration risk', label: 'negative' },
+  { text: 'Legal rejected our terms again', label: 'negative' },
+  { text: 'Interested but very concerned about the price', label: 'negative', aspects: { price: 'negative' } },
+  { text: 'We lost the deal to the incumbent', label: 'negative', aspects: { competitor: 'negative' } },
+  { text: 'Ghosted after the demo, no reply to three emails', label: 'negative' },
+  { text: 'Deal stalled, procurement is blocked on security review', label: 'negative' },
+  { text: 'They were disappointed with the pilot', label: 'negative' },
+  { text: "Doesn't look good, they cancelled the follow up", label: 'negative' },
+  { text: 'Missing the SSO integration they need, not a fit right now', label: 'negative', aspects: { fit: 'negative' } },
+  { text: 'Worried about fit', label: 'negative', aspects: { fit: 'negative' } },
+  { text: 'Fit concerns from IT', label: 'negative', aspects: { fit: 'negative' } },
+  { text: 'They are concerned about fit with their stack', label: 'negative', aspects: { fit: 'negative' } },
+
+  // Mixed: the overall label hides opposite aspects
+  { text: 'Happy with the pricing but the rollout is delayed to next quarter', label: 'neutral', aspects: { price: 'positive', timing: 'negative' } },
+  { text: 'Great fit for their workflow, price is not a problem', label: 'positive', aspects: { fit: 'positive', price: 'positive' } }
+];
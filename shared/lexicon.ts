@@ -0,0 +1,206 @@
+// Lexicon-based sentiment for sales notes. The server falls back to it when
+// no model is available, and the client scores offline notes with it until
+// the server has them. Tune against LEXICON_CORPUS in ./lexicon-corpus.ts.
+
+// Loss-reason topics a note can be positive or negative about
+export type SentimentAspect = 'price' | 'timing' | 'competitor' | 'fit';
+
+export type SentimentAspects = Partial<Record<SentimentAspect, 'positive' | 'neutral' | 'negative'>>;
+
+export interface LexiconResult {
+  score: number;
+  label: 'positive' | 'neutral' | 'negative';
+  confidence: number;
+  aspects: SentimentAspects;
+}
+
+// Sales-domain word weights in [-1, 1]. Words that are neutral in sales
+// ("deal", "budget", "price") are left out on purpose.
+const LEXICON: Record<string, number> = {
+  // Positive
+  great: 0.6, excellent: 0.8, excited: 0.7, love: 0.8, loved: 0.8, amazing: 0.8,
+  happy: 0.6, perfect: 0.7, fantastic: 0.8, wonderful: 0.7, good: 0.4, positive: 0.5,
+  interested: 0.4, keen: 0.5, impressed: 0.6, approved: 0.7, approve: 0.5, agreed: 0.5,
+  sign: 0.5, signed: 0.8, signing: 0.6, committed: 0.6, budgeted: 0.5,
+  progress: 0.4, ready: 0.4, yes: 0.4, win: 0.6, won: 0.7, pleased: 0.6,
+  enthusiastic: 0.7, confident: 0.5, smooth: 0.4, easy: 0.3, expand: 0.5, expansion: 0.5,
+  renew: 0.5, renewal: 0.3, upsell: 0.5, greenlight: 0.7, greenlit: 0.7,
+  // Negative
+  bad: -0.6, terrible: -0.8, awful: -0.8, worried: -0.6, concerned: -0.5, concern: -0.4,
+  concerns: -0.4, problem: -0.5, problems: -0.5, issue: -0.4, issues: -0.4,
+  cancel: -0.7, cancelled: -0.8, canceled: -0.8, delay: -0.5, delayed: -0.5,
+  postponed: -0.6, frozen: -0.7, freeze: -0.6, cut: -0.5, cuts: -0.5,
+  expensive: -0.5, pricey: -0.4, competitor: -0.4, competitors: -0.4, incumbent: -0.4,
+  lost: -0.8, lose: -0.6, losing: -0.6, unhappy: -0.7, frustrated: -0.7, angry: -0.8,
+  disappointed: -0.7, hesitant: -0.4, stalled: -0.6, stuck: -0.5, ghosted: -0.7,
+  unresponsive: -0.6, silent: -0.4, reject: -0.7, rejected: -0.8, decline: -0.6,
+  declined: -0.7, risk: -0.4, risky: -0.5, pushback: -0.5, objection: -0.4,
+  objections: -0.4, churn: -0.7, layoffs: -0.6, blocker: -0.5, blocked: -0.5, missing: -0.5
+};
+
+// Multipliers applied to the next sentiment word
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.4, extremely: 1.8, super: 1.5, highly: 1.5, so: 1.3,
+  totally: 1.5, completely: 1.6, absolutely: 1.7, incredibly: 1.7,
+  slightly: 0.5, somewhat: 0.6, bit: 0.6, little: 0.6, fairly: 0.8, pretty: 0.9
+};
+
+const NEGATORS = new Set([
+  'no', 'not', 'never', 'without', 'hardly', 'barely', 'neither', 'nor', 'nothing',
+  "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "weren't", "won't",
+  "wouldn't", "can't", "cannot", "couldn't", "shouldn't", "haven't", "hasn't"
+]);
+
+// Winning against something bad is good: "we beat the competitor",
+// "they're replacing their current vendor". These flip the next negative word.
+const OVERCOMERS = new Set([
+  'beat', 'beating', 'beaten', 'outperformed', 'outbid', 'displaced', 'displacing',
+  'replace', 'replacing', 'resolved', 'fixed', 'solved', 'cleared', 'overcame'
+]);
+
+// A negator or overcomer reaches sentiment words up to this many tokens after it
+const SCOPE_WINDOW = 3;
+const NEGATION_FACTOR = -0.75;
+
+// Tokens that end a negation or intensifier's reach. What comes after them
+// is what the rep means ("interested but worried"), so the clause before counts less.
+const CLAUSE_BREAKS = new Set(['but', 'however', 'although', 'though', 'yet']);
+const PRE_BREAK_WEIGHT = 0.5;
+
+// Words that put a clause on one of the loss-reason topics. A clause's
+// sentiment counts towards every aspect it mentions.
+const ASPECT_WORDS: Record<SentimentAspect, string[]> = {
+  price: [
+    'price', 'prices', 'pricing', 'priced', 'cost', 'costs', 'costly', 'expensive', 'pricey',
+    'cheap', 'cheaper', 'discount', 'discounts', 'budget', 'budgets', 'budgeted', 'quote',
+    'fee', 'fees', 'license', 'licence', 'roi'
+  ],
+  timing: [
+    'timing', 'timeline', 'timelines', 'delay', 'delayed', 'postpone', 'postponed', 'freeze',
+    'frozen', 'quarter', 'deadline', 'schedule', 'urgency', 'urgent', 'later', 'wait', 'waiting',
+    'rollout', 'pushed'
+  ],
+  competitor: [
+    'competitor', 'competitors', 'competition', 'incumbent', 'vendor', 'vendors',
+    'alternative', 'alternatives', 'rival', 'rivals'
+  ],
+  fit: [
+    'fit', 'fits', 'feature', 'features', 'integration', 'integrations', 'requirement',
+    'requirements', 'functionality', 'workflow', 'workflows', 'missing', 'compatible',
+    'compatibility', 'gap', 'gaps', 'capability', 'capabilities'
+  ]
+};
+
+const ASPECT_OF: Record<string, SentimentAspect[]> = {};
+for (const [aspect, words] of Object.entries(ASPECT_WORDS) as [SentimentAspect, string[]][]) {
+  for (const word of words) (ASPECT_OF[word] ??= []).push(aspect);
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .split(/[^a-z']+/)
+    .filter(Boolean);
+}
+
+export function toLabel(score: number): LexiconResult['label'] {
+  if (score > 0.3) return 'positive';
+  if (score < -0.3) return 'negative';
+  return 'neutral';
+}
+
+export function analyzeLexicon(text: string): LexiconResult {
+  const sentences = text.split(/[.!?;\n]+/);
+  let total = 0;
+  let hits = 0;
+  const aspectTotals: Partial<Record<SentimentAspect, { total: number; hits: number }>> = {};
+
+  for (const sentence of sentences) {
+    let sentenceTotal = 0;
+    let sentenceHits = 0;
+    let negatedFor = 0;
+    let overcomeFor = 0;
+    let intensity = 1;
+    let clauseTotal = 0;
+    let clauseHits = 0;
+    let clauseAspects = new Set<SentimentAspect>();
+
+    // Unlike the overall score, aspects only take the clause that names them
+    const closeClause = () => {
+      for (const aspect of clauseAspects) {
+        const entry = (aspectTotals[aspect] ??= { total: 0, hits: 0 });
+        entry.total += clauseTotal;
+        entry.hits += clauseHits;
+      }
+      clauseTotal = 0;
+      clauseHits = 0;
+      clauseAspects = new Set();
+    };
+
+    for (const token of tokenize(sentence)) {
+      for (const aspect of ASPECT_OF[token] ?? []) clauseAspects.add(aspect);
+
+      if (CLAUSE_BREAKS.has(token)) {
+        closeClause();
+        sentenceTotal *= PRE_BREAK_WEIGHT;
+        sentenceHits *= PRE_BREAK_WEIGHT;
+        negatedFor = 0;
+        overcomeFor = 0;
+        intensity = 1;
+        continue;
+      }
+      if (NEGATORS.has(token)) {
+        negatedFor = SCOPE_WINDOW;
+        continue;
+      }
+      if (OVERCOMERS.has(token)) {
+        overcomeFor = SCOPE_WINDOW;
+        continue;
+      }
+      if (token in INTENSIFIERS) {
+        intensity *= INTENSIFIERS[token];
+        continue;
+      }
+
+      const weight = LEXICON[token];
+      if (weight !== undefined) {
+        let value = weight * intensity;
+        // "not bad" is mildly positive, not as positive as "good"
+        if (negatedFor > 0) value *= NEGATION_FACTOR;
+        if (overcomeFor > 0 && weight < 0) value = -value;
+        sentenceTotal += value;
+        sentenceHits += 1;
+        clauseTotal += value;
+        clauseHits += 1;
+        intensity = 1;
+        overcomeFor = 0;
+      }
+
+      if (negatedFor > 0) negatedFor -= 1;
+      if (overcomeFor > 0) overcomeFor -= 1;
+    }
+    closeClause();
+
+    total += sentenceTotal;
+    hits += sentenceHits;
+  }
+
+  const aspects: SentimentAspects = {};
+  for (const [aspect, { total: aspectTotal, hits: aspectHits }] of Object.entries(aspectTotals) as [SentimentAspect, { total: number; hits: number }][]) {
+    // Named without any sentiment words: mentioned, nothing more
+    aspects[aspect] = aspectHits === 0 ? 'neutral' : toLabel(aspectTotal / aspectHits);
+  }
+
+  // Nothing matched: probably neutral, but we can't really tell
+  if (hits === 0) return { score: 0, label: 'neutral', confidence: 0.2, aspects };
+
+  // Average, nudged towards the extremes when several words agree
+  const score = Math.max(-1, Math.min(1, (total / hits) * Math.min(1.5, 1 + (hits - 1) * 0.1)));
+  const rounded = Math.round(score * 100) / 100;
+  // More matched words and a clearer score mean more confidence, capped
+  // well below what a model would claim
+  const confidence = Math.round(Math.min(0.8, 0.3 + hits * 0.1 + Math.abs(rounded) * 0.2) * 100) / 100;
+
+  return { score: rounded, label: toLabel(rounded), confidence, aspects };
+}
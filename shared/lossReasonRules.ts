@@ -0,0 +1,57 @@
+import { analyzeLexicon, type SentimentAspect, type SentimentAspects } from './lexicon';
+
+// Keyword fallback for suggesting a loss reason: the topic the notes are most
+// often negative about, with recent notes counting more. The server uses it
+// when no model is available, the client when it's offline.
+
+// The rules only ever pick a topic, never 'other'
+export interface RuleLossReason {
+  reason: SentimentAspect;
+  justification: string;
+}
+
+const RECENCY_DECAY = 0.8;
+const QUOTE_LENGTH = 80;
+
+const ASPECT_PHRASES: Record<SentimentAspect, string> = {
+  price: 'price',
+  timing: 'timing',
+  competitor: 'competitors',
+  fit: 'product fit'
+};
+
+function quote(text: string): string {
+  const line = text.trim().replace(/\s+/g, ' ');
+  return line.length > QUOTE_LENGTH ? `${line.slice(0, QUOTE_LENGTH - 1)}…` : line;
+}
+
+// notes are newest first, each with the aspects it was scored with
+export function suggestLossReasonFromAspects(notes: { text: string; aspects: SentimentAspects }[]): RuleLossReason | null {
+  const weights: Partial<Record<SentimentAspect, number>> = {};
+  const counts: Partial<Record<SentimentAspect, number>> = {};
+  const latest: Partial<Record<SentimentAspect, string>> = {};
+
+  notes.forEach(({ text, aspects }, index) => {
+    for (const [aspect, label] of Object.entries(aspects) as [SentimentAspect, string][]) {
+      if (label !== 'negative') continue;
+      weights[aspect] = (weights[aspect] ?? 0) + RECENCY_DECAY ** index;
+      counts[aspect] = (counts[aspect] ?? 0) + 1;
+      latest[aspect] ??= text;
+    }
+  });
+
+  const ranked = (Object.keys(weights) as SentimentAspect[]).sort((a, b) => weights[b]! - weights[a]!);
+  const top = ranked[0];
+  if (!top) return null;
+
+  const count = counts[top]!;
+  return {
+    reason: top,
+    justification: `${count} note${count !== 1 ? 's' : ''} negative about ${ASPECT_PHRASES[top]}, most recently: "${quote(latest[top]!)}"`
+  };
+}
+
+// notes are newest first
+export function suggestLossReasonByRules(notes: string[]): RuleLossReason | null {
+  return suggestLossReasonFromAspects(notes.map(text => ({ text, aspects: analyzeLexicon(text).aspects })));
+}